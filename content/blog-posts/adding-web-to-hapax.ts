@@ -10,10 +10,11 @@ export const addingWebToHapaxPost: BlogPost = {
     heroImage: "/img/blog/hapax-web/hapaxweb6.png",
     heroImageDark: "/img/blog/hapax-web/hapaxweb1.png",
     tags: ["hapax", "expo", "react-native", "web", "sqlite", "cloudflare"],
+    series: { name: "Building Hapax", part: 2 },
     blocks: [
         {
             type: "paragraph",
-            text: "I wanted Hapax in a browser so I could use it on my laptop sometimes. If you want the earlier iOS-first walkthrough first, it's [Building Hapax: An Offline-First Dictionary App](/blog/hapax-offline-first-dictionary-ios/index.html).",
+            text: "I wanted Hapax in a browser so I could use it on my laptop sometimes. If you want the earlier iOS-first walkthrough first, it's [Building Hapax: An Offline-First Dictionary App](post:hapax-offline-first-dictionary-ios).",
         },
         {
             type: "image",
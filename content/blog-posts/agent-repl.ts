@@ -69,28 +69,16 @@ export const agentReplBuildLogPost: BlogPost = {
             text: "What we built:",
         },
         {
-            type: "paragraph",
-            text: "1. Streaming assistant output in the terminal so we can see progress in real time.",
-        },
-        {
-            type: "paragraph",
-            text: "2. A thinking indicator before first token so slow turns still feel responsive (super basic).",
-        },
-        {
-            type: "paragraph",
-            text: "3. Session save/load so conversations can be resumed.",
-        },
-        {
-            type: "paragraph",
-            text: "4. Safe workspace inspection tools for reading and searching local files.",
-        },
-        {
-            type: "paragraph",
-            text: "5. Per-turn metrics plus Ctrl+C cancellation.",
-        },
-        {
-            type: "paragraph",
-            text: "6. Phase-based reasoning controls for plan/build/review modes.",
+            type: "list",
+            style: "ordered",
+            items: [
+                "Streaming assistant output in the terminal so we can see progress in real time.",
+                "A thinking indicator before first token so slow turns still feel responsive (super basic).",
+                "Session save/load so conversations can be resumed.",
+                "Safe workspace inspection tools for reading and searching local files.",
+                "Per-turn metrics plus Ctrl+C cancellation.",
+                "Phase-based reasoning controls for plan/build/review modes.",
+            ],
         },
         {
             type: "heading",
@@ -102,16 +90,13 @@ export const agentReplBuildLogPost: BlogPost = {
             text: "We intentionally kept tool access constrained.",
         },
         {
-            type: "paragraph",
-            text: "- read_workspace_file blocks absolute paths and parent directory traversal.",
-        },
-        {
-            type: "paragraph",
-            text: "- search_workspace skips .git and node_modules.",
-        },
-        {
-            type: "paragraph",
-            text: "- Both tools cap bytes/results and skip binary content.",
+            type: "list",
+            style: "unordered",
+            items: [
+                "read_workspace_file blocks absolute paths and parent directory traversal.",
+                "search_workspace skips .git and node_modules.",
+                "Both tools cap bytes/results and skip binary content.",
+            ],
         },
         {
             type: "heading",
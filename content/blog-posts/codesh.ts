@@ -40,7 +40,14 @@ export const codeshLocalCodexUsageMenubarPost: BlogPost = {
         },
         {
             type: "paragraph",
-            text: "Yes, [CodexBar](https://github.com/steipete/CodexBar) already exists and is a much more thorough option. I wanted to build something myself that stayed intentionally simple: local-only, lightweight, and easy to understand end-to-end. This implementation was actually heavily based off of [CodexMonitor](https://github.com/Dimillian/CodexMonitor) which is an amazing app (although I've recently been using the offical Codex app which lacks this feature!). (Also, it looks like the Codex team has added this usage feature to their app as well now. Oh well! It was fun to build and have for a while.)",
+            text: "Yes, [CodexBar](https://github.com/steipete/CodexBar) already exists and is a much more thorough option. I wanted to build something myself that stayed intentionally simple: local-only, lightweight, and easy to understand end-to-end. This implementation was actually heavily based off of [CodexMonitor](https://github.com/Dimillian/CodexMonitor) which is an amazing app (although I've recently been using the offical Codex app which lacks this feature!).",
+        },
+        {
+            type: "callout",
+            variant: "update",
+            paragraphs: [
+                "It looks like the Codex team has added this usage feature to their app as well now. Oh well! It was fun to build and have for a while.",
+            ],
         },
         {
             type: "heading",
@@ -48,16 +55,13 @@ export const codeshLocalCodexUsageMenubarPost: BlogPost = {
             text: "Design constraints",
         },
         {
-            type: "paragraph",
-            text: "1. Read local logs only.",
-        },
-        {
-            type: "paragraph",
-            text: "2. Stay fast enough to feel instant from the menu bar.",
-        },
-        {
-            type: "paragraph",
-            text: "3. Keep the interface minimal so the signal is obvious.",
+            type: "list",
+            style: "ordered",
+            items: [
+                "Read local logs only.",
+                "Stay fast enough to feel instant from the menu bar.",
+                "Keep the interface minimal so the signal is obvious.",
+            ],
         },
         {
             type: "heading",
@@ -10,6 +10,8 @@ export const hapaxOfflineFirstDictionaryIosPost: BlogPost = {
     heroImage: "/img/blog/hapax-offline-first-dictionary-ios/system-map-light.png",
     heroImageDark: "/img/blog/hapax-offline-first-dictionary-ios/system-map-dark.png",
     tags: ["ios", "react-native", "offline-first", "sqlite", "supabase"],
+    toc: true,
+    series: { name: "Building Hapax", part: 1 },
     blocks: [
         {
             type: "paragraph",
@@ -67,7 +69,7 @@ export const hapaxOfflineFirstDictionaryIosPost: BlogPost = {
         },
         {
             type: "paragraph",
-            text: "Hapax is iOS-first for now. Android and Expo web are possible, and ~~web will probably land next~~ (see [Adding Web to Hapax](/blog/adding-web-to-hapax/index.html)).",
+            text: "Hapax is iOS-first for now. Android and Expo web are possible, and ~~web will probably land next~~ (see [[adding-web-to-hapax]]).",
         },
         {
             type: "paragraph",
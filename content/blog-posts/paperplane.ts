@@ -69,24 +69,15 @@ npx react-native-paperplane`,
             maxHeightPx: 560,
         },
         {
-            type: "paragraph",
-            text: "1. Finds your iOS workspace and release scheme.",
-        },
-        {
-            type: "paragraph",
-            text: "2. Reads the current build number from app config (text-first parsing).",
-        },
-        {
-            type: "paragraph",
-            text: "3. Updates the app config build number and Info.plist CFBundleVersion.",
-        },
-        {
-            type: "paragraph",
-            text: "4. Creates an archive and exports an IPA to a deterministic output path.",
-        },
-        {
-            type: "paragraph",
-            text: "5. Uploads to TestFlight through iTMSTransporter (unless --skip-upload is set).",
+            type: "list",
+            style: "ordered",
+            items: [
+                "Finds your iOS workspace and release scheme.",
+                "Reads the current build number from app config (text-first parsing).",
+                "Updates the app config build number and Info.plist CFBundleVersion.",
+                "Creates an archive and exports an IPA to a deterministic output path.",
+                "Uploads to TestFlight through iTMSTransporter (unless --skip-upload is set).",
+            ],
         },
         {
             type: "heading",
@@ -50,34 +50,8 @@ export const reactNativePeekieFourAnglesPost: BlogPost = {
         },
         {
             type: "code",
-            language: "tsx",
+            codeFile: "peekie/Row.tsx",
             caption: "Minimal usage with React Navigation.",
-            code: `import * as React from "react";
-import { Text, View } from "react-native";
-import { useNavigation } from "@react-navigation/native";
-import { PeekPreview } from "react-native-peekie";
-
-export function Row({ id, title }: { id: string; title: string }) {
-  const navigation = useNavigation();
-
-  return (
-    <PeekPreview
-      previewKey={id}
-      onCommit={() => navigation.navigate("Detail", { id })}
-      preferredContentSize={{ width: 320, height: 240 }}
-    >
-      <PeekPreview.Trigger>
-        <Text>{title}</Text>
-      </PeekPreview.Trigger>
-
-      <PeekPreview.Preview>
-        <View>
-          <Text>{title}</Text>
-        </View>
-      </PeekPreview.Preview>
-    </PeekPreview>
-  );
-}`,
         },
         {
             type: "image",
@@ -180,24 +154,15 @@ const handleDismiss = (_event: PeekPreviewEvent) => onDismiss?.();`,
             text: "Before shipping, verify:",
         },
         {
-            type: "paragraph",
-            text: "1. Behavior when preview content is missing.",
-        },
-        {
-            type: "paragraph",
-            text: "2. Scrolling with long preview bodies.",
-        },
-        {
-            type: "paragraph",
-            text: "3. Commit navigation parameter integrity.",
-        },
-        {
-            type: "paragraph",
-            text: "4. Repeated open and dismiss cycles.",
-        },
-        {
-            type: "paragraph",
-            text: "5. Row reuse behavior in long lists.",
+            type: "list",
+            style: "ordered",
+            items: [
+                "Behavior when preview content is missing.",
+                "Scrolling with long preview bodies.",
+                "Commit navigation parameter integrity.",
+                "Repeated open and dismiss cycles.",
+                "Row reuse behavior in long lists.",
+            ],
         },
         {
             type: "heading",
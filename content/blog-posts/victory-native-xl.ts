@@ -95,20 +95,14 @@ export const victoryNativeXlChartingAndMaintenancePost: BlogPost = {
             text: "A few lessons from maintaining OSS",
         },
         {
-            type: "paragraph",
-            text: "1. Reproducible issues are the easiest to solve. The best issues defined expected behavior first, provided examples to reproduce the issue, and then discussed implementation.",
-        },
-        {
-            type: "paragraph",
-            text: "2. Review quality compounds. Consistent PR feedback usually leads to better follow-on contributions from the community.",
-        },
-        {
-            type: "paragraph",
-            text: "3. Backward compatibility is a feature. Preserving stable behavior across releases often matters as much as shipping new chart capabilities.",
-        },
-        {
-            type: "paragraph",
-            text: "4. It's not going to be perfect. There's always open issues, bugs, uncertainty about some PRs, not enough time etc. I think accepting that partially in this context helps at least to keep shipping. After all, everyone is always welcome to open a PR, help with an issue, etc.",
+            type: "list",
+            style: "ordered",
+            items: [
+                "Reproducible issues are the easiest to solve. The best issues defined expected behavior first, provided examples to reproduce the issue, and then discussed implementation.",
+                "Review quality compounds. Consistent PR feedback usually leads to better follow-on contributions from the community.",
+                "Backward compatibility is a feature. Preserving stable behavior across releases often matters as much as shipping new chart capabilities.",
+                "It's not going to be perfect. There's always open issues, bugs, uncertainty about some PRs, not enough time etc. I think accepting that partially in this context helps at least to keep shipping. After all, everyone is always welcome to open a PR, help with an issue, etc.",
+            ],
         },
         {
             type: "heading",
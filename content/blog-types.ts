@@ -9,6 +9,49 @@ export type BlogHeadingBlock = {
     text: string;
 };
 
+export type BlogListStyle = "ordered" | "unordered";
+
+export type BlogListItem =
+    | string
+    | {
+          text: string;
+          style?: BlogListStyle;
+          items: BlogListItem[];
+      };
+
+export type BlogListBlock = {
+    type: "list";
+    style: BlogListStyle;
+    start?: number;
+    items: BlogListItem[];
+};
+
+export type BlogCalloutVariant = "note" | "tip" | "warning" | "update";
+
+export type BlogCalloutBlock = {
+    type: "callout";
+    variant: BlogCalloutVariant;
+    title?: string;
+    paragraphs: string[];
+};
+
+export type BlogTableAlignment = "left" | "center" | "right";
+
+export type BlogTableColumn = {
+    label: string;
+    align?: BlogTableAlignment;
+};
+
+// Strings support the same inline markup as paragraphs.
+export type BlogTableCell = string | number;
+
+export type BlogTableBlock = {
+    type: "table";
+    columns: BlogTableColumn[];
+    rows: BlogTableCell[][];
+    caption?: string;
+};
+
 export type BlogImageBlock = {
     type: "image";
     src: string;
@@ -36,10 +79,37 @@ export type BlogVideoBlock = {
 
 export type BlogCodeBlock = {
     type: "code";
-    language: string;
-    code: string;
     caption?: string;
-};
+    // Shown in place of the language label, e.g. "scripts/build.ts".
+    filename?: string;
+    // 1-based lines or ranges, e.g. "3-5,9".
+    highlightLines?: string;
+    showLineNumbers?: boolean;
+    // Styles lines starting with "+" / "-" as added / removed.
+    diff?: boolean;
+    // Shows this many lines with a "show all" toggle for the rest.
+    collapsedAfterLines?: number;
+    // ts/tsx only: type-checks the code and adds hover types and "// ^?" query answers.
+    twoslash?: boolean;
+} & (
+    | {
+          language: string;
+          code: string;
+          codeFile?: undefined;
+          lines?: undefined;
+          region?: undefined;
+      }
+    | {
+          // Path under content/snippets/, e.g. "hapax/DictionaryStore.swift".
+          codeFile: string;
+          // Inferred from the file extension when omitted.
+          language?: string;
+          code?: undefined;
+          // Either a 1-based line range ("10-42") or a "#region <name>" marker name, not both.
+          lines?: string;
+          region?: string;
+      }
+);
 
 export type BlogTweetBlock = {
     type: "tweet";
@@ -50,20 +120,39 @@ export type BlogTweetBlock = {
 export type BlogBlock =
     | BlogParagraphBlock
     | BlogHeadingBlock
+    | BlogListBlock
+    | BlogCalloutBlock
+    | BlogTableBlock
     | BlogImageBlock
     | BlogVideoBlock
     | BlogCodeBlock
     | BlogTweetBlock;
 
+export type BlogSeriesMembership = {
+    // Posts with the same name (same slug once normalized) form one series.
+    name: string;
+    // 1-based position in the series; parts must run 1..N without gaps.
+    part: number;
+};
+
 export type BlogPost = {
     slug: string;
     title: string;
     summary: string;
     publishedAt: string;
+    // YYYY-MM-DD of the last meaningful revision; never earlier than publishedAt.
+    updatedAt?: string;
     published: boolean;
+    // Always listed on the home page, ahead of the most recent posts.
+    pinned?: boolean;
     githubUrl?: string;
     heroImage?: string;
     heroImageDark?: string;
     tags?: string[];
+    // Renders a nested table of contents of the post's headings under the summary.
+    toc?: boolean;
+    series?: BlogSeriesMembership;
+    // Footnote text keyed by id, referenced as [^id] in block text.
+    footnotes?: Record<string, string>;
     blocks: BlogBlock[];
 };
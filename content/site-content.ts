@@ -1,10 +1,20 @@
 export type {
     BlogBlock,
+    BlogCalloutBlock,
+    BlogCalloutVariant,
     BlogCodeBlock,
     BlogHeadingBlock,
     BlogImageBlock,
+    BlogListBlock,
+    BlogListItem,
+    BlogListStyle,
     BlogParagraphBlock,
     BlogPost,
+    BlogSeriesMembership,
+    BlogTableAlignment,
+    BlogTableBlock,
+    BlogTableCell,
+    BlogTableColumn,
     BlogTweetBlock,
 } from "./blog-types";
 
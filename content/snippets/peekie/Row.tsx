@@ -0,0 +1,26 @@
+import * as React from "react";
+import { Text, View } from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { PeekPreview } from "react-native-peekie";
+
+export function Row({ id, title }: { id: string; title: string }) {
+  const navigation = useNavigation();
+
+  return (
+    <PeekPreview
+      previewKey={id}
+      onCommit={() => navigation.navigate("Detail", { id })}
+      preferredContentSize={{ width: 320, height: 240 }}
+    >
+      <PeekPreview.Trigger>
+        <Text>{title}</Text>
+      </PeekPreview.Trigger>
+
+      <PeekPreview.Preview>
+        <View>
+          <Text>{title}</Text>
+        </View>
+      </PeekPreview.Preview>
+    </PeekPreview>
+  );
+}
@@ -0,0 +1,300 @@
+export type InlineNode =
+    | { type: "text"; value: string }
+    | { type: "code"; value: string }
+    | { type: "kbd"; value: string }
+    | { type: "link"; href: string; children: InlineNode[] }
+    | { type: "postLink"; slug: string; fragment?: string; children: InlineNode[] }
+    | { type: "bold"; children: InlineNode[] }
+    | { type: "highlight"; children: InlineNode[] }
+    | { type: "strikethrough"; children: InlineNode[] }
+    | { type: "emphasis"; tag: "i" | "em"; children: InlineNode[] }
+    | { type: "footnoteReference"; id: string };
+
+export type InlineParseResult =
+    | { ok: true; nodes: InlineNode[] }
+    | { ok: false; message: string; index: number };
+
+type InlineContainerType = "bold" | "highlight" | "strikethrough";
+
+type InlineTerminator = {
+    delimiter: string;
+    kind: "container" | "tag" | "linkLabel";
+};
+
+type InlineSequence = {
+    nodes: InlineNode[];
+    endIndex: number;
+};
+
+const ESCAPABLE_CHARACTERS = new Set("\\`*_{}[]()<>#+-.!|~=^");
+const DELIMITER_CONTAINERS: Array<{ delimiter: string; type: InlineContainerType }> = [
+    { delimiter: "**", type: "bold" },
+    { delimiter: "==", type: "highlight" },
+    { delimiter: "~~", type: "strikethrough" },
+];
+const EMPHASIS_TAGS = ["i", "em"] as const;
+const FOOTNOTE_REFERENCE_PATTERN = /^\[\^([^\]\s]+)\]/;
+const POST_LINK_PREFIX = "post:";
+const WIKI_POST_LINK_PATTERN = /^\[\[([^\]\s]+)\]\]/;
+
+class InlineSyntaxError extends Error {
+    constructor(
+        message: string,
+        readonly index: number,
+    ) {
+        super(message);
+    }
+}
+
+function appendText(nodes: InlineNode[], value: string): void {
+    const lastNode = nodes[nodes.length - 1];
+    if (lastNode?.type === "text") {
+        lastNode.value += value;
+        return;
+    }
+
+    nodes.push({ type: "text", value });
+}
+
+function postLinkNode(target: string, children: InlineNode[]): InlineNode {
+    const fragmentIndex = target.indexOf("#");
+    if (fragmentIndex === -1) {
+        return { type: "postLink", slug: target, children };
+    }
+
+    return {
+        type: "postLink",
+        slug: target.slice(0, fragmentIndex),
+        fragment: target.slice(fragmentIndex + 1),
+        children,
+    };
+}
+
+function opensDelimiter(source: string, index: number, delimiter: string): boolean {
+    const nextCharacter = source[index + delimiter.length];
+    return (
+        source.startsWith(delimiter, index) &&
+        nextCharacter !== undefined &&
+        !/\s/.test(nextCharacter)
+    );
+}
+
+/**
+ * Parses `[label](href)` starting at `index`. Returns null when the bracket isn't a
+ * link, in which case the caller keeps `[` as literal text. `post:<slug>` hrefs become
+ * cross-post links that the build resolves.
+ */
+function parseLink(
+    source: string,
+    index: number,
+): { node: InlineNode; endIndex: number } | null {
+    let label: InlineSequence;
+    try {
+        label = parseSequence(source, index + 1, { delimiter: "]", kind: "linkLabel" });
+    } catch (error) {
+        if (error instanceof InlineSyntaxError) {
+            return null;
+        }
+
+        throw error;
+    }
+
+    const hrefStart = label.endIndex + 1;
+    if (label.endIndex === index + 1 || source[hrefStart] !== "(") {
+        return null;
+    }
+
+    const hrefEnd = source.indexOf(")", hrefStart + 1);
+    if (hrefEnd === -1 || hrefEnd === hrefStart + 1) {
+        return null;
+    }
+
+    const href = source.slice(hrefStart + 1, hrefEnd).trim();
+    return {
+        node: href.startsWith(POST_LINK_PREFIX)
+            ? postLinkNode(href.slice(POST_LINK_PREFIX.length), label.nodes)
+            : { type: "link", href, children: label.nodes },
+        endIndex: hrefEnd + 1,
+    };
+}
+
+function parseSequence(
+    source: string,
+    startIndex: number,
+    terminator: InlineTerminator | null,
+): InlineSequence {
+    const nodes: InlineNode[] = [];
+    let index = startIndex;
+
+    while (index < source.length) {
+        if (terminator && source.startsWith(terminator.delimiter, index)) {
+            return { nodes, endIndex: index };
+        }
+
+        const character = source[index];
+
+        if (character === "\\" && ESCAPABLE_CHARACTERS.has(source[index + 1] ?? "")) {
+            appendText(nodes, source[index + 1]);
+            index += 2;
+            continue;
+        }
+
+        if (character === "`") {
+            const closingIndex = source.indexOf("`", index + 1);
+            const newlineIndex = source.indexOf("\n", index + 1);
+            if (closingIndex === -1 || (newlineIndex !== -1 && newlineIndex < closingIndex)) {
+                throw new InlineSyntaxError(
+                    'inline code "`" is never closed. Escape a literal backtick as "\\`".',
+                    index,
+                );
+            }
+
+            if (closingIndex === index + 1) {
+                throw new InlineSyntaxError("inline code is empty.", index);
+            }
+
+            nodes.push({ type: "code", value: source.slice(index + 1, closingIndex) });
+            index = closingIndex + 1;
+            continue;
+        }
+
+        if (character === "[" && terminator?.kind !== "linkLabel") {
+            const postLinkMatch = WIKI_POST_LINK_PATTERN.exec(source.slice(index));
+            if (postLinkMatch) {
+                nodes.push(postLinkNode(postLinkMatch[1], []));
+                index += postLinkMatch[0].length;
+                continue;
+            }
+
+            const footnoteMatch = FOOTNOTE_REFERENCE_PATTERN.exec(source.slice(index));
+            if (footnoteMatch) {
+                nodes.push({ type: "footnoteReference", id: footnoteMatch[1] });
+                index += footnoteMatch[0].length;
+                continue;
+            }
+
+            const link = parseLink(source, index);
+            if (link) {
+                nodes.push(link.node);
+                index = link.endIndex;
+                continue;
+            }
+        }
+
+        const container = DELIMITER_CONTAINERS.find(({ delimiter }) =>
+            opensDelimiter(source, index, delimiter),
+        );
+        if (container) {
+            const contentStart = index + container.delimiter.length;
+            const content = parseSequence(source, contentStart, {
+                delimiter: container.delimiter,
+                kind: "container",
+            });
+            if (content.endIndex >= source.length) {
+                throw new InlineSyntaxError(
+                    `"${container.delimiter}" is never closed. Escape literal characters with a backslash.`,
+                    index,
+                );
+            }
+
+            nodes.push({ type: container.type, children: content.nodes });
+            index = content.endIndex + container.delimiter.length;
+            continue;
+        }
+
+        if (character === "<") {
+            if (source.startsWith("<kbd>", index)) {
+                const closingIndex = source.indexOf("</kbd>", index);
+                if (closingIndex === -1) {
+                    throw new InlineSyntaxError('"<kbd>" is never closed with "</kbd>".', index);
+                }
+
+                nodes.push({ type: "kbd", value: source.slice(index + "<kbd>".length, closingIndex) });
+                index = closingIndex + "</kbd>".length;
+                continue;
+            }
+
+            const emphasisTag = EMPHASIS_TAGS.find((tag) => source.startsWith(`<${tag}>`, index));
+            if (emphasisTag) {
+                const openTag = `<${emphasisTag}>`;
+                const closeTag = `</${emphasisTag}>`;
+                const content = parseSequence(source, index + openTag.length, {
+                    delimiter: closeTag,
+                    kind: "tag",
+                });
+                if (content.endIndex >= source.length) {
+                    throw new InlineSyntaxError(`"${openTag}" is never closed with "${closeTag}".`, index);
+                }
+
+                nodes.push({ type: "emphasis", tag: emphasisTag, children: content.nodes });
+                index = content.endIndex + closeTag.length;
+                continue;
+            }
+
+            const strayTag = ["</i>", "</em>", "</kbd>"].find((tag) => source.startsWith(tag, index));
+            if (strayTag) {
+                throw new InlineSyntaxError(`"${strayTag}" has no matching opening tag.`, index);
+            }
+        }
+
+        appendText(nodes, character);
+        index += 1;
+    }
+
+    return { nodes, endIndex: index };
+}
+
+/**
+ * Parses paragraph-style inline markup: `code`, [links](href) with nested labels,
+ * cross-post links ([label](post:slug) or [[slug]]), **bold**, ==highlight==, ~~strikethrough~~, <i>/<em>, <kbd>, [^footnote] references,
+ * and backslash escapes. Unmatched `[` stays literal; other unclosed markup is an error
+ * reported at the index of its opening delimiter.
+ */
+export function parseInlineMarkup(source: string): InlineParseResult {
+    try {
+        return { ok: true, nodes: parseSequence(source, 0, null).nodes };
+    } catch (error) {
+        if (error instanceof InlineSyntaxError) {
+            return { ok: false, message: error.message, index: error.index };
+        }
+
+        throw error;
+    }
+}
+
+/**
+ * Flattens inline nodes to text. `[[slug]]` links use `postTitle` for their label and
+ * fall back to the slug when it has no answer.
+ */
+export function inlineNodesToPlainText(
+    nodes: InlineNode[],
+    postTitle?: (slug: string) => string | undefined,
+): string {
+    return nodes
+        .map((node) => {
+            switch (node.type) {
+                case "text":
+                case "code":
+                case "kbd":
+                    return node.value;
+                case "footnoteReference":
+                    return "";
+                case "postLink":
+                    return node.children.length > 0
+                        ? inlineNodesToPlainText(node.children, postTitle)
+                        : (postTitle?.(node.slug) ?? node.slug);
+                default:
+                    return inlineNodesToPlainText(node.children, postTitle);
+            }
+        })
+        .join("");
+}
+
+export function walkInlineNodes(nodes: InlineNode[], visit: (node: InlineNode) => void): void {
+    for (const node of nodes) {
+        visit(node);
+        if ("children" in node) {
+            walkInlineNodes(node.children, visit);
+        }
+    }
+}
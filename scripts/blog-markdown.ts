@@ -0,0 +1,898 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import type {
+    BlogBlock,
+    BlogListBlock,
+    BlogListItem,
+    BlogListStyle,
+    BlogPost,
+    BlogTableAlignment,
+    BlogTableColumn,
+} from "../content/site-content";
+
+type MarkdownAttributeKind = "string" | "boolean" | "number";
+
+type MarkdownAttributeSchema = Record<string, MarkdownAttributeKind>;
+
+type MarkdownAttributeValues = Record<string, string | boolean | number>;
+
+type MarkdownListLevel = {
+    indent: number;
+    style: BlogListStyle;
+    items: BlogListItem[];
+};
+
+type MarkdownSourceLine = {
+    text: string;
+    lineNumber: number;
+};
+
+const FRONTMATTER_DELIMITER = "---";
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const CODE_FENCE_PATTERN = /^(`{3,})\s*([^`\s{]*)\s*(\{.*\})?\s*$/;
+const IMAGE_PATTERN = /^!\[([^\]]*)\]\(\s*(\S+?)\s*\)\s*(\{.*\})?$/;
+const DIRECTIVE_PATTERN = /^::([a-z]+)\s*(\{.*\})?$/;
+const CONTAINER_DIRECTIVE_PATTERN = /^:::([a-z]+)\s*(\{.*\})?$/;
+const TABLE_ROW_PATTERN = /^\|.*\|$/;
+const TABLE_DELIMITER_CELL_PATTERN = /^(:?)-{3,}(:?)$/;
+const ATTRIBUTE_LINE_PATTERN = /^\{.*\}$/;
+const FOOTNOTE_DEFINITION_PATTERN = /^\[\^([^\]\s]+)\]:\s*(.*)$/;
+const CALLOUT_VARIANTS = ["note", "tip", "warning", "update"] as const;
+const LIST_ITEM_PATTERN = /^(\s*)(?:([-*])|(\d+)\.)\s+(.*)$/;
+const ATTRIBUTE_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9-]*/;
+
+const FRONTMATTER_SCHEMA = {
+    slug: "string",
+    title: "string",
+    summary: "string",
+    publishedAt: "string",
+    updatedAt: "string",
+    published: "boolean",
+    pinned: "boolean",
+    githubUrl: "string",
+    heroImage: "string",
+    heroImageDark: "string",
+    tags: "string[]",
+    toc: "boolean",
+    series: "series",
+} as const;
+
+const FRONTMATTER_KIND_LABELS: Record<(typeof FRONTMATTER_SCHEMA)[keyof typeof FRONTMATTER_SCHEMA], string> = {
+    string: "a string",
+    boolean: "a boolean",
+    "string[]": "a list of strings",
+    series: "a mapping with a string \"name\" and a number \"part\"",
+};
+
+const IMAGE_ATTRIBUTES: MarkdownAttributeSchema = {
+    dark: "string",
+    caption: "string",
+    centered: "boolean",
+    maxHeightPx: "number",
+};
+
+const CODE_ATTRIBUTES: MarkdownAttributeSchema = {
+    caption: "string",
+    filename: "string",
+    highlightLines: "string",
+    showLineNumbers: "boolean",
+    diff: "boolean",
+    collapsedAfterLines: "number",
+    twoslash: "boolean",
+};
+
+const CODE_FILE_ATTRIBUTES: MarkdownAttributeSchema = {
+    ...CODE_ATTRIBUTES,
+    codeFile: "string",
+    language: "string",
+    lines: "string",
+    region: "string",
+};
+
+const VIDEO_ATTRIBUTES: MarkdownAttributeSchema = {
+    src: "string",
+    alt: "string",
+    caption: "string",
+    centered: "boolean",
+    maxHeightPx: "number",
+    poster: "string",
+    autoplay: "boolean",
+    loop: "boolean",
+    muted: "boolean",
+    controls: "boolean",
+    playsInline: "boolean",
+};
+
+const CALLOUT_ATTRIBUTES: MarkdownAttributeSchema = {
+    title: "string",
+};
+
+const TABLE_ATTRIBUTES: MarkdownAttributeSchema = {
+    caption: "string",
+};
+
+const TWEET_ATTRIBUTES: MarkdownAttributeSchema = {
+    url: "string",
+    caption: "string",
+};
+
+function markdownPostError(filePath: string, lineNumber: number | null, message: string): Error {
+    const location = lineNumber === null ? "" : ` line ${lineNumber}`;
+    return new Error(`Markdown blog post "${filePath}"${location}: ${message}`);
+}
+
+function splitFrontmatter(
+    source: string,
+    filePath: string,
+): { frontmatter: string; bodyLines: MarkdownSourceLine[] } {
+    const lines = source.replace(/^\uFEFF/, "").split(/\r?\n/);
+    if (lines[0]?.trim() !== FRONTMATTER_DELIMITER) {
+        throw markdownPostError(
+            filePath,
+            1,
+            `must start with a "${FRONTMATTER_DELIMITER}" YAML frontmatter block.`,
+        );
+    }
+
+    const closingIndex = lines.findIndex(
+        (line, index) => index > 0 && line.trim() === FRONTMATTER_DELIMITER,
+    );
+    if (closingIndex === -1) {
+        throw markdownPostError(filePath, 1, "frontmatter block is never closed.");
+    }
+
+    return {
+        frontmatter: lines.slice(1, closingIndex).join("\n"),
+        bodyLines: lines.slice(closingIndex + 1).map((text, index) => ({
+            text,
+            lineNumber: closingIndex + 2 + index,
+        })),
+    };
+}
+
+function isFrontmatterValueOfKind(
+    value: unknown,
+    kind: (typeof FRONTMATTER_SCHEMA)[keyof typeof FRONTMATTER_SCHEMA],
+): boolean {
+    if (kind === "string[]") {
+        return Array.isArray(value) && value.every((entry) => typeof entry === "string");
+    }
+
+    if (kind === "series") {
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            return false;
+        }
+
+        const series = value as Record<string, unknown>;
+        return (
+            Object.keys(series).every((key) => key === "name" || key === "part") &&
+            typeof series.name === "string" &&
+            typeof series.part === "number"
+        );
+    }
+
+    return typeof value === kind;
+}
+
+function parseFrontmatter(
+    frontmatter: string,
+    filePath: string,
+): Omit<BlogPost, "slug" | "blocks"> & { slug?: string } {
+    let data: unknown;
+    try {
+        // The core schema keeps dates such as 2026-03-04 as plain strings.
+        data = parseYaml(frontmatter, { schema: "core" });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw markdownPostError(filePath, null, `invalid YAML frontmatter. ${message}`);
+    }
+
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+        throw markdownPostError(filePath, null, "frontmatter must be a YAML mapping.");
+    }
+
+    const fields = data as Record<string, unknown>;
+    for (const [key, value] of Object.entries(fields)) {
+        const kind = FRONTMATTER_SCHEMA[key as keyof typeof FRONTMATTER_SCHEMA];
+        if (!kind) {
+            throw markdownPostError(
+                filePath,
+                null,
+                `unknown frontmatter field "${key}". Supported fields: ${Object.keys(FRONTMATTER_SCHEMA).join(", ")}.`,
+            );
+        }
+
+        if (!isFrontmatterValueOfKind(value, kind)) {
+            throw markdownPostError(
+                filePath,
+                null,
+                `frontmatter field "${key}" must be ${FRONTMATTER_KIND_LABELS[kind]}.`,
+            );
+        }
+    }
+
+    for (const key of ["title", "summary", "publishedAt", "published"] as const) {
+        if (!(key in fields)) {
+            throw markdownPostError(filePath, null, `frontmatter is missing "${key}".`);
+        }
+    }
+
+    return fields as Omit<BlogPost, "slug" | "blocks"> & { slug?: string };
+}
+
+function parseAttributeValue(
+    source: string,
+    startIndex: number,
+): { value: string; quoted: boolean; endIndex: number } | null {
+    if (source[startIndex] !== '"') {
+        const match = /^[^\s"}]+/.exec(source.slice(startIndex));
+        return match ? { value: match[0], quoted: false, endIndex: startIndex + match[0].length } : null;
+    }
+
+    let value = "";
+    for (let index = startIndex + 1; index < source.length; index += 1) {
+        const character = source[index];
+        if (character === "\\" && index + 1 < source.length) {
+            value += source[index + 1];
+            index += 1;
+            continue;
+        }
+
+        if (character === '"') {
+            return { value, quoted: true, endIndex: index + 1 };
+        }
+
+        value += character;
+    }
+
+    return null;
+}
+
+function parseMarkdownAttributes(
+    source: string | undefined,
+    schema: MarkdownAttributeSchema,
+    context: { filePath: string; lineNumber: number; label: string },
+): MarkdownAttributeValues {
+    const values: MarkdownAttributeValues = {};
+    if (!source) {
+        return values;
+    }
+
+    const fail = (message: string): Error =>
+        markdownPostError(context.filePath, context.lineNumber, `${context.label} ${message}`);
+
+    const body = source.slice(1, -1);
+    let index = 0;
+    while (index < body.length) {
+        if (/\s/.test(body[index])) {
+            index += 1;
+            continue;
+        }
+
+        const keyMatch = ATTRIBUTE_KEY_PATTERN.exec(body.slice(index));
+        if (!keyMatch) {
+            throw fail(`has malformed attributes "${source}".`);
+        }
+
+        const key = keyMatch[0];
+        index += key.length;
+
+        const kind = schema[key];
+        if (!kind) {
+            throw fail(
+                `has unknown attribute "${key}". Supported attributes: ${Object.keys(schema).join(", ")}.`,
+            );
+        }
+
+        if (key in values) {
+            throw fail(`repeats attribute "${key}".`);
+        }
+
+        if (body[index] !== "=") {
+            if (kind !== "boolean") {
+                throw fail(`attribute "${key}" needs a value.`);
+            }
+
+            values[key] = true;
+            continue;
+        }
+
+        const parsedValue = parseAttributeValue(body, index + 1);
+        if (!parsedValue) {
+            throw fail(`attribute "${key}" has a malformed value.`);
+        }
+
+        const { value, quoted, endIndex } = parsedValue;
+        index = endIndex;
+
+        if (kind === "string") {
+            values[key] = value;
+        } else if (kind === "boolean") {
+            if (quoted || (value !== "true" && value !== "false")) {
+                throw fail(`attribute "${key}" must be true or false.`);
+            }
+
+            values[key] = value === "true";
+        } else {
+            const numericValue = Number(value);
+            if (quoted || value === "" || !Number.isFinite(numericValue)) {
+                throw fail(`attribute "${key}" must be a number.`);
+            }
+
+            values[key] = numericValue;
+        }
+    }
+
+    return values;
+}
+
+function requireAttribute(
+    values: MarkdownAttributeValues,
+    key: string,
+    context: { filePath: string; lineNumber: number; label: string },
+): string {
+    const value = values[key];
+    if (typeof value !== "string") {
+        throw markdownPostError(
+            context.filePath,
+            context.lineNumber,
+            `${context.label} is missing the "${key}" attribute.`,
+        );
+    }
+
+    return value;
+}
+
+function parseDirectiveBlock(
+    line: MarkdownSourceLine,
+    name: string,
+    attributeSource: string | undefined,
+    filePath: string,
+): BlogBlock {
+    const context = { filePath, lineNumber: line.lineNumber, label: `::${name}` };
+
+    if (name === "video") {
+        const values = parseMarkdownAttributes(attributeSource, VIDEO_ATTRIBUTES, context);
+        return {
+            type: "video",
+            ...values,
+            src: requireAttribute(values, "src", context),
+            alt: requireAttribute(values, "alt", context),
+        };
+    }
+
+    if (name === "tweet") {
+        const values = parseMarkdownAttributes(attributeSource, TWEET_ATTRIBUTES, context);
+        return {
+            type: "tweet",
+            ...values,
+            url: requireAttribute(values, "url", context),
+        };
+    }
+
+    if (name === "code") {
+        const values = parseMarkdownAttributes(attributeSource, CODE_FILE_ATTRIBUTES, context);
+        return {
+            type: "code",
+            ...values,
+            codeFile: requireAttribute(values, "codeFile", context),
+        };
+    }
+
+    throw markdownPostError(
+        filePath,
+        line.lineNumber,
+        `unknown shortcode "::${name}". Supported shortcodes: ::video, ::tweet, ::code.`,
+    );
+}
+
+function parseCalloutBlock(
+    lines: MarkdownSourceLine[],
+    startIndex: number,
+    match: RegExpExecArray,
+    filePath: string,
+): { block: BlogBlock; endIndex: number } {
+    const line = lines[startIndex];
+    const [, name, attributeSource] = match;
+    const variant = CALLOUT_VARIANTS.find((candidate) => candidate === name);
+    if (!variant) {
+        throw markdownPostError(
+            filePath,
+            line.lineNumber,
+            `unknown callout ":::${name}". Supported callouts: ${CALLOUT_VARIANTS.map((candidate) => `:::${candidate}`).join(", ")}.`,
+        );
+    }
+
+    const values = parseMarkdownAttributes(attributeSource, CALLOUT_ATTRIBUTES, {
+        filePath,
+        lineNumber: line.lineNumber,
+        label: `:::${variant}`,
+    });
+
+    const closingIndex = lines.findIndex(
+        (candidate, candidateIndex) => candidateIndex > startIndex && candidate.text.trim() === ":::",
+    );
+    if (closingIndex === -1) {
+        throw markdownPostError(filePath, line.lineNumber, `:::${variant} is never closed with ":::".`);
+    }
+
+    const paragraphs = lines
+        .slice(startIndex + 1, closingIndex)
+        .map((bodyLine) => bodyLine.text.trim())
+        .join("\n")
+        .split(/\n{2,}/)
+        .map((paragraph) => paragraph.replaceAll("\n", " ").trim())
+        .filter((paragraph) => paragraph !== "");
+
+    return {
+        block: { type: "callout", variant, ...values, paragraphs },
+        endIndex: closingIndex + 1,
+    };
+}
+
+/**
+ * Splits a `| a | b |` row on pipes that are neither escaped (`\|`) nor inside
+ * inline code.
+ */
+function splitTableRow(row: string): string[] {
+    const cells: string[] = [];
+    let cell = "";
+    let inCode = false;
+
+    for (let index = 1; index < row.length - 1; index += 1) {
+        const character = row[index];
+        if (character === "\\" && row[index + 1] === "|") {
+            cell += "|";
+            index += 1;
+            continue;
+        }
+
+        if (character === "`") {
+            inCode = !inCode;
+        }
+
+        if (character === "|" && !inCode) {
+            cells.push(cell.trim());
+            cell = "";
+            continue;
+        }
+
+        cell += character;
+    }
+
+    cells.push(cell.trim());
+    return cells;
+}
+
+function parseTableDelimiterRow(row: string): Array<BlogTableAlignment | undefined> | null {
+    const alignments: Array<BlogTableAlignment | undefined> = [];
+    for (const cell of splitTableRow(row)) {
+        const match = TABLE_DELIMITER_CELL_PATTERN.exec(cell);
+        if (!match) {
+            return null;
+        }
+
+        const [, leftColon, rightColon] = match;
+        alignments.push(
+            leftColon && rightColon ? "center" : rightColon ? "right" : leftColon ? "left" : undefined,
+        );
+    }
+
+    return alignments;
+}
+
+function isMarkdownTableStart(lines: MarkdownSourceLine[], index: number): boolean {
+    const header = lines[index]?.text.trim() ?? "";
+    const delimiter = lines[index + 1]?.text.trim() ?? "";
+    return (
+        TABLE_ROW_PATTERN.test(header) &&
+        TABLE_ROW_PATTERN.test(delimiter) &&
+        parseTableDelimiterRow(delimiter) !== null
+    );
+}
+
+function parseMarkdownTable(
+    lines: MarkdownSourceLine[],
+    startIndex: number,
+    filePath: string,
+): { block: BlogBlock; endIndex: number } {
+    const headerLine = lines[startIndex];
+    const labels = splitTableRow(headerLine.text.trim());
+    const alignments = parseTableDelimiterRow(lines[startIndex + 1].text.trim()) ?? [];
+    if (alignments.length !== labels.length) {
+        throw markdownPostError(
+            filePath,
+            lines[startIndex + 1].lineNumber,
+            `table delimiter row has ${alignments.length} cell(s) but the header has ${labels.length}.`,
+        );
+    }
+
+    const columns: BlogTableColumn[] = labels.map((label, columnIndex) => ({
+        label,
+        ...(alignments[columnIndex] ? { align: alignments[columnIndex] } : {}),
+    }));
+
+    const rows: string[][] = [];
+    let index = startIndex + 2;
+    for (; index < lines.length && TABLE_ROW_PATTERN.test(lines[index].text.trim()); index += 1) {
+        rows.push(splitTableRow(lines[index].text.trim()));
+    }
+
+    let attributes = {};
+    const attributeLine = lines[index];
+    if (attributeLine && ATTRIBUTE_LINE_PATTERN.test(attributeLine.text.trim())) {
+        attributes = parseMarkdownAttributes(attributeLine.text.trim(), TABLE_ATTRIBUTES, {
+            filePath,
+            lineNumber: attributeLine.lineNumber,
+            label: "table",
+        });
+        index += 1;
+    }
+
+    return {
+        block: { type: "table", columns, rows, ...attributes },
+        endIndex: index,
+    };
+}
+
+function parseImageBlock(
+    line: MarkdownSourceLine,
+    match: RegExpExecArray,
+    filePath: string,
+): BlogBlock {
+    const [, alt, src, attributeSource] = match;
+    const { dark, ...values } = parseMarkdownAttributes(attributeSource, IMAGE_ATTRIBUTES, {
+        filePath,
+        lineNumber: line.lineNumber,
+        label: `image "${src}"`,
+    });
+
+    return {
+        type: "image",
+        src,
+        ...(typeof dark === "string" ? { darkSrc: dark } : {}),
+        alt,
+        ...values,
+    };
+}
+
+function appendToLastListItem(items: BlogListItem[], text: string): void {
+    const lastItem = items[items.length - 1];
+    if (typeof lastItem === "string") {
+        items[items.length - 1] = `${lastItem} ${text}`;
+    } else {
+        lastItem.text = `${lastItem.text} ${text}`;
+    }
+}
+
+/**
+ * Reads consecutive list lines starting at `startIndex`. Deeper indentation nests a
+ * list under the previous item; indented lines without a marker continue that item.
+ */
+function parseMarkdownList(
+    lines: MarkdownSourceLine[],
+    startIndex: number,
+    filePath: string,
+): { block: BlogListBlock; endIndex: number } {
+    const levels: MarkdownListLevel[] = [];
+    let block: BlogListBlock | null = null;
+    let index = startIndex;
+
+    for (; index < lines.length; index += 1) {
+        const line = lines[index];
+        const text = line.text.replaceAll("\t", "    ");
+        if (text.trim() === "") {
+            break;
+        }
+
+        const itemMatch = LIST_ITEM_PATTERN.exec(text);
+        if (!itemMatch) {
+            if (levels.length === 0 || !/^\s/.test(text)) {
+                break;
+            }
+
+            appendToLastListItem(levels[levels.length - 1].items, text.trim());
+            continue;
+        }
+
+        const [, indentText, bullet, orderedNumber, itemText] = itemMatch;
+        const indent = indentText.length;
+        const style: BlogListStyle = bullet ? "unordered" : "ordered";
+
+        if (!block) {
+            block = {
+                type: "list",
+                style,
+                ...(orderedNumber !== undefined && Number(orderedNumber) !== 1
+                    ? { start: Number(orderedNumber) }
+                    : {}),
+                items: [],
+            };
+            levels.push({ indent, style, items: block.items });
+        } else if (indent > levels[levels.length - 1].indent) {
+            const parent = levels[levels.length - 1];
+            const parentItem = parent.items[parent.items.length - 1];
+            const nestedItems: BlogListItem[] = [];
+            parent.items[parent.items.length - 1] = {
+                text: typeof parentItem === "string" ? parentItem : parentItem.text,
+                ...(style !== parent.style ? { style } : {}),
+                items: nestedItems,
+            };
+            levels.push({ indent, style, items: nestedItems });
+        } else {
+            while (levels.length > 1 && indent < levels[levels.length - 1].indent) {
+                levels.pop();
+            }
+        }
+
+        const level = levels[levels.length - 1];
+        if (level.style !== style) {
+            throw markdownPostError(
+                filePath,
+                line.lineNumber,
+                "list mixes numbered and bulleted items at the same level. Indent the nested list or start a new one after a blank line.",
+            );
+        }
+
+        level.items.push(itemText.trim());
+    }
+
+    return { block: block!, endIndex: index };
+}
+
+function parseMarkdownBlocks(lines: MarkdownSourceLine[], filePath: string): BlogBlock[] {
+    const blocks: BlogBlock[] = [];
+    let paragraphLines: string[] = [];
+
+    const flushParagraph = (): void => {
+        if (paragraphLines.length > 0) {
+            blocks.push({ type: "paragraph", text: paragraphLines.join(" ") });
+            paragraphLines = [];
+        }
+    };
+
+    for (let index = 0; index < lines.length; index += 1) {
+        const line = lines[index];
+        const trimmed = line.text.trim();
+
+        if (trimmed === "") {
+            flushParagraph();
+            continue;
+        }
+
+        const fenceMatch = CODE_FENCE_PATTERN.exec(trimmed);
+        if (fenceMatch) {
+            flushParagraph();
+
+            const [, fence, language, attributeSource] = fenceMatch;
+            if (language === "") {
+                throw markdownPostError(
+                    filePath,
+                    line.lineNumber,
+                    "fenced code block needs a language (for example ```ts).",
+                );
+            }
+
+            const values = parseMarkdownAttributes(attributeSource, CODE_ATTRIBUTES, {
+                filePath,
+                lineNumber: line.lineNumber,
+                label: "fenced code block",
+            });
+
+            const closingIndex = lines.findIndex(
+                (candidate, candidateIndex) =>
+                    candidateIndex > index &&
+                    candidate.text.trim().startsWith(fence) &&
+                    /^`+$/.test(candidate.text.trim()),
+            );
+            if (closingIndex === -1) {
+                throw markdownPostError(
+                    filePath,
+                    line.lineNumber,
+                    "fenced code block is never closed.",
+                );
+            }
+
+            blocks.push({
+                type: "code",
+                language,
+                code: lines
+                    .slice(index + 1, closingIndex)
+                    .map((codeLine) => codeLine.text)
+                    .join("\n"),
+                ...values,
+            });
+            index = closingIndex;
+            continue;
+        }
+
+        const headingMatch = HEADING_PATTERN.exec(trimmed);
+        if (headingMatch) {
+            flushParagraph();
+
+            const level = headingMatch[1].length;
+            if (level !== 2 && level !== 3 && level !== 4) {
+                throw markdownPostError(
+                    filePath,
+                    line.lineNumber,
+                    `heading level ${level} is not supported. Use ## to ####; the post title comes from frontmatter.`,
+                );
+            }
+
+            blocks.push({ type: "heading", level, text: headingMatch[2] });
+            continue;
+        }
+
+        const imageMatch = IMAGE_PATTERN.exec(trimmed);
+        if (imageMatch && paragraphLines.length === 0) {
+            blocks.push(parseImageBlock(line, imageMatch, filePath));
+            continue;
+        }
+
+        if (LIST_ITEM_PATTERN.test(line.text)) {
+            flushParagraph();
+
+            const { block, endIndex } = parseMarkdownList(lines, index, filePath);
+            blocks.push(block);
+            index = endIndex - 1;
+            continue;
+        }
+
+        if (isMarkdownTableStart(lines, index)) {
+            flushParagraph();
+
+            const { block, endIndex } = parseMarkdownTable(lines, index, filePath);
+            blocks.push(block);
+            index = endIndex - 1;
+            continue;
+        }
+
+        const containerMatch = CONTAINER_DIRECTIVE_PATTERN.exec(trimmed);
+        if (containerMatch) {
+            flushParagraph();
+
+            const { block, endIndex } = parseCalloutBlock(lines, index, containerMatch, filePath);
+            blocks.push(block);
+            index = endIndex - 1;
+            continue;
+        }
+
+        const directiveMatch = DIRECTIVE_PATTERN.exec(trimmed);
+        if (directiveMatch) {
+            flushParagraph();
+            blocks.push(
+                parseDirectiveBlock(line, directiveMatch[1], directiveMatch[2], filePath),
+            );
+            continue;
+        }
+
+        paragraphLines.push(trimmed);
+    }
+
+    flushParagraph();
+    return blocks;
+}
+
+/**
+ * Pulls `[^id]: text` definitions (plus indented continuation lines) out of the body
+ * so the remaining lines only hold blocks. Lines inside fenced code are left alone.
+ */
+function extractFootnoteDefinitions(
+    lines: MarkdownSourceLine[],
+    filePath: string,
+): { footnotes: Record<string, string>; bodyLines: MarkdownSourceLine[] } {
+    const footnotes: Record<string, string> = {};
+    const bodyLines: MarkdownSourceLine[] = [];
+    let currentId: string | null = null;
+    let openFence: string | null = null;
+
+    for (const line of lines) {
+        const trimmed = line.text.trim();
+        if (openFence !== null) {
+            if (trimmed.startsWith(openFence) && /^`+$/.test(trimmed)) {
+                openFence = null;
+            }
+
+            bodyLines.push(line);
+            continue;
+        }
+
+        const fenceMatch = CODE_FENCE_PATTERN.exec(trimmed);
+        if (fenceMatch) {
+            openFence = fenceMatch[1];
+            currentId = null;
+            bodyLines.push(line);
+            continue;
+        }
+
+        const definitionMatch = FOOTNOTE_DEFINITION_PATTERN.exec(line.text);
+        if (definitionMatch) {
+            const [, id, text] = definitionMatch;
+            if (Object.hasOwn(footnotes, id)) {
+                throw markdownPostError(filePath, line.lineNumber, `footnote "[^${id}]" is defined twice.`);
+            }
+
+            footnotes[id] = text.trim();
+            currentId = id;
+            continue;
+        }
+
+        if (currentId !== null && /^\s+\S/.test(line.text)) {
+            footnotes[currentId] = `${footnotes[currentId]} ${line.text.trim()}`.trim();
+            continue;
+        }
+
+        currentId = null;
+        bodyLines.push(line);
+    }
+
+    return { footnotes, bodyLines };
+}
+
+export function compileMarkdownBlogPost(
+    source: string,
+    slug: string,
+    filePath: string,
+): BlogPost {
+    const { frontmatter, bodyLines } = splitFrontmatter(source, filePath);
+    const { slug: frontmatterSlug, ...fields } = parseFrontmatter(frontmatter, filePath);
+
+    if (frontmatterSlug !== undefined && frontmatterSlug !== slug) {
+        throw markdownPostError(
+            filePath,
+            null,
+            `frontmatter slug "${frontmatterSlug}" does not match the file name. Rename the file to "${frontmatterSlug}.md" or drop the slug field.`,
+        );
+    }
+
+    const { footnotes, bodyLines: blockLines } = extractFootnoteDefinitions(bodyLines, filePath);
+
+    return {
+        slug,
+        ...fields,
+        ...(Object.keys(footnotes).length > 0 ? { footnotes } : {}),
+        blocks: parseMarkdownBlocks(blockLines, filePath),
+    };
+}
+
+export async function loadMarkdownBlogPosts(directory: string): Promise<BlogPost[]> {
+    const fileNames = (await readdir(directory))
+        .filter((fileName) => fileName.endsWith(".md"))
+        .sort();
+
+    const posts: BlogPost[] = [];
+    for (const fileName of fileNames) {
+        const filePath = path.join(directory, fileName);
+        const source = await readFile(filePath, "utf8");
+        posts.push(
+            compileMarkdownBlogPost(
+                source,
+                path.basename(fileName, ".md"),
+                path.relative(process.cwd(), filePath),
+            ),
+        );
+    }
+
+    return posts;
+}
+
+/**
+ * Slots Markdown posts into the hand-ordered `blogPosts` list, each ahead of the
+ * first post published before it.
+ */
+export function mergeMarkdownBlogPosts(
+    posts: BlogPost[],
+    markdownPosts: BlogPost[],
+): BlogPost[] {
+    const merged = [...posts];
+
+    for (const markdownPost of markdownPosts) {
+        const insertIndex = merged.findIndex(
+            (post) => post.publishedAt < markdownPost.publishedAt,
+        );
+        merged.splice(insertIndex === -1 ? merged.length : insertIndex, 0, markdownPost);
+    }
+
+    return merged;
+}
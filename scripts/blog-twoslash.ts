@@ -0,0 +1,218 @@
+import path from "node:path";
+import ts from "typescript";
+
+export type TwoslashLanguage = "ts" | "tsx";
+
+export type TwoslashHover = {
+    // 0-based position in the rendered code (query lines removed).
+    line: number;
+    character: number;
+    length: number;
+    text: string;
+};
+
+export type TwoslashQuery = {
+    // 0-based rendered line the `^` points into, and the column it points at.
+    line: number;
+    character: number;
+    text: string;
+};
+
+export type TwoslashError = {
+    // 1-based position in the snippet as written.
+    line: number;
+    column: number;
+    message: string;
+};
+
+export type TwoslashResult =
+    | { ok: true; code: string; hovers: TwoslashHover[]; queries: TwoslashQuery[] }
+    | { ok: false; errors: TwoslashError[] };
+
+const TWOSLASH_QUERY_PATTERN = /^\s*\/\/\s*\^\?\s*$/;
+const TWOSLASH_COMPILER_OPTIONS: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    // Each snippet is its own module, so top-level await and repeated names across posts work.
+    moduleDetection: ts.ModuleDetectionKind.Force,
+    lib: ["lib.es2022.d.ts", "lib.dom.d.ts"],
+    // The automatic runtime takes JSX types from react/jsx-runtime, so tsx snippets
+    // don't need to import React.
+    jsx: ts.JsxEmit.ReactJSX,
+    jsxImportSource: "react",
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    // Only React's types are ambient, so snippets don't pick up Node or build-script globals.
+    types: ["react"],
+};
+
+// Shared so the lib files are parsed once per build rather than once per snippet.
+const documentRegistry = ts.createDocumentRegistry();
+const twoslashResults = new Map<string, TwoslashResult>();
+let snippetCount = 0;
+
+function createSnippetService(fileName: string, code: string): ts.LanguageService {
+    const host: ts.LanguageServiceHost = {
+        getCompilationSettings: () => TWOSLASH_COMPILER_OPTIONS,
+        getScriptFileNames: () => [fileName],
+        getScriptVersion: () => "1",
+        getScriptSnapshot: (name) => {
+            const text = name === fileName ? code : ts.sys.readFile(name);
+            return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+        },
+        getCurrentDirectory: () => process.cwd(),
+        getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+        fileExists: (name) => name === fileName || ts.sys.fileExists(name),
+        readFile: (name) => (name === fileName ? code : ts.sys.readFile(name)),
+    };
+
+    return ts.createLanguageService(host, documentRegistry);
+}
+
+function quickInfoText(service: ts.LanguageService, fileName: string, position: number): string {
+    const info = service.getQuickInfoAtPosition(fileName, position);
+    return info ? ts.displayPartsToString(info.displayParts) : "";
+}
+
+function collectIdentifiers(sourceFile: ts.SourceFile): ts.Identifier[] {
+    const identifiers: ts.Identifier[] = [];
+    const visit = (node: ts.Node): void => {
+        if (ts.isIdentifier(node)) {
+            identifiers.push(node);
+        }
+
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return identifiers;
+}
+
+function compileTwoslash(code: string, language: TwoslashLanguage): TwoslashResult {
+    snippetCount += 1;
+    // A fresh name per snippet keeps the document registry from serving an older snippet.
+    const fileName = path.join(process.cwd(), `__twoslash__/snippet-${snippetCount}.${language}`);
+    const service = createSnippetService(fileName, code);
+    try {
+        return collectTwoslashResult(service, fileName, code);
+    } finally {
+        service.dispose();
+    }
+}
+
+function collectTwoslashResult(
+    service: ts.LanguageService,
+    fileName: string,
+    code: string,
+): TwoslashResult {
+    const program = service.getProgram();
+    const sourceFile = program?.getSourceFile(fileName);
+    if (!sourceFile) {
+        throw new Error(`TypeScript could not load snippet "${fileName}".`);
+    }
+
+    const diagnostics = [
+        ...service.getSyntacticDiagnostics(fileName),
+        ...service.getSemanticDiagnostics(fileName),
+    ];
+    if (diagnostics.length > 0) {
+        return {
+            ok: false,
+            errors: diagnostics.map((diagnostic) => {
+                const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+                    diagnostic.start ?? 0,
+                );
+                return {
+                    line: line + 1,
+                    column: character + 1,
+                    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, " "),
+                };
+            }),
+        };
+    }
+
+    const sourceLines = code.split("\n");
+    // Rendered line index for each source line; query lines map to the line they annotate.
+    const renderedLineIndexes: number[] = [];
+    const renderedLines: string[] = [];
+    const renderedLineSourceIndexes: number[] = [];
+    const queries: TwoslashQuery[] = [];
+    const errors: TwoslashError[] = [];
+
+    for (const [lineIndex, sourceLine] of sourceLines.entries()) {
+        if (!TWOSLASH_QUERY_PATTERN.test(sourceLine)) {
+            renderedLineIndexes.push(renderedLines.length);
+            renderedLines.push(sourceLine);
+            renderedLineSourceIndexes.push(lineIndex);
+            continue;
+        }
+
+        renderedLineIndexes.push(renderedLines.length - 1);
+        const character = sourceLine.indexOf("^");
+        const targetLine = renderedLines[renderedLines.length - 1];
+        const text =
+            targetLine === undefined || character >= targetLine.length
+                ? ""
+                : quickInfoText(
+                      service,
+                      fileName,
+                      sourceFile.getPositionOfLineAndCharacter(
+                          renderedLineSourceIndexes[renderedLines.length - 1],
+                          character,
+                      ),
+                  );
+        if (text === "") {
+            errors.push({
+                line: lineIndex + 1,
+                column: character + 1,
+                message: '"// ^?" must point at an identifier on the line above it.',
+            });
+            continue;
+        }
+
+        queries.push({ line: renderedLines.length - 1, character, text });
+    }
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+
+    const hovers: TwoslashHover[] = [];
+    for (const identifier of collectIdentifiers(sourceFile)) {
+        const start = identifier.getStart(sourceFile);
+        const text = quickInfoText(service, fileName, start);
+        if (text === "") {
+            continue;
+        }
+
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+        hovers.push({
+            line: renderedLineIndexes[line],
+            character,
+            length: identifier.getEnd() - start,
+            text,
+        });
+    }
+
+    return { ok: true, code: renderedLines.join("\n"), hovers, queries };
+}
+
+/**
+ * Type-checks a snippet with the TypeScript compiler and collects hover text for every
+ * identifier plus the answers to `// ^?` queries (the caret points at the identifier
+ * on the line above). Query lines are removed from the returned code. Results are cached
+ * per snippet because validation, pages, and feeds all ask for the same code.
+ */
+export function runTwoslash(code: string, language: TwoslashLanguage): TwoslashResult {
+    const cacheKey = `${language}\n${code}`;
+    const cachedResult = twoslashResults.get(cacheKey);
+    if (cachedResult) {
+        return cachedResult;
+    }
+
+    const result = compileTwoslash(code, language);
+    twoslashResults.set(cacheKey, result);
+    return result;
+}
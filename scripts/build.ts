@@ -1,14 +1,108 @@
-import { mkdir, rm, stat, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { mkdir, mkdtemp, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import os from "node:os";
 import path from "node:path";
-import { createHighlighter } from "shiki";
+import { Resvg } from "@resvg/resvg-js";
+import type { Element } from "hast";
+import { JSDOM } from "jsdom";
+import { transform as transformCss } from "lightningcss";
+import postcss from "postcss";
+import sharp from "sharp";
+import {
+    createHighlighter,
+    type BundledLanguage,
+    type DecorationItem,
+    type ShikiTransformer,
+    type SpecialLanguage,
+} from "shiki";
+import subsetFont from "subset-font";
+import tailwindcss from "tailwindcss";
+import tailwindConfig from "../tailwind.config";
+import {
+    inlineNodesToPlainText,
+    parseInlineMarkup,
+    walkInlineNodes,
+    type InlineNode,
+} from "./blog-inline-markup";
+import { loadMarkdownBlogPosts, mergeMarkdownBlogPosts } from "./blog-markdown";
+import {
+    runTwoslash,
+    type TwoslashHover,
+    type TwoslashQuery,
+    type TwoslashResult,
+} from "./blog-twoslash";
+import { serializeJsonLd, validateJsonLd, type JsonLdNode } from "./json-ld";
 import {
     blogPosts,
     type BlogBlock,
+    type BlogCalloutVariant,
+    type BlogCodeBlock,
+    type BlogHeadingBlock,
+    type BlogListItem,
+    type BlogListStyle,
     type BlogPost,
+    type BlogTableAlignment,
+    type BlogTableCell,
 } from "../content/site-content";
 
 const ROOT_DIR = process.cwd();
 const HOME_PAGE = "index.html";
+const BLOG_POSTS_DIR = "content/blog-posts";
+// Source files that code blocks include with `codeFile`.
+const BLOG_SNIPPETS_DIR = "content/snippets";
+const RSS_FEED_PATH = "feed.xml";
+const ATOM_FEED_PATH = "atom.xml";
+const JSON_FEED_PATH = "feed.json";
+const SITEMAP_PATH = "sitemap.xml";
+const ROBOTS_PATH = "robots.txt";
+const BLOG_TAG_INDEX_PAGE = "blog/tags/index.html";
+const BLOG_INDEX_PAGE = "blog/index.html";
+// Posts per blog index page; later pages live at blog/page/<n>/index.html.
+const BLOG_INDEX_PAGE_SIZE = 20;
+// Most recent posts on the home page, after any pinned ones.
+const HOME_BLOG_POST_LIMIT = 5;
+const SITE_STYLESHEET_DIR = "css";
+const SITE_FONT_DIR = "fonts";
+const RESPONSIVE_IMAGE_DIR = "img-variants";
+const RESPONSIVE_IMAGE_WIDTHS = [384, 768, 1152, 1536] as const;
+const RESPONSIVE_IMAGE_FORMATS = ["avif", "webp"] as const;
+const RESPONSIVE_IMAGE_SOURCE_PATTERN = /\.(?:png|jpe?g|webp)$/i;
+const RESPONSIVE_IMAGE_DIMENSION_PATTERN = /\.(?:png|jpe?g|webp|gif|svg)$/i;
+// Post content is capped at max-w-3xl (768px) inside the px-4 page gutter.
+const RESPONSIVE_IMAGE_SIZES = "(min-width: 800px) 768px, calc(100vw - 2rem)";
+const OG_CARD_LAYOUT = { width: 1200, height: 630, paddingX: 80 } as const;
+const SITE_HEAD_ASSETS_MARKER = "<!-- site-head-assets -->";
+const SITE_FONT_SUBSETS = ["latin", "latin-ext"] as const;
+const SITE_FONTS: SiteFontDefinition[] = [
+    {
+        family: "Abril Fatface",
+        fontsourceId: "abril-fatface",
+        textSelector: ".font-abril",
+        preload: false,
+    },
+    {
+        family: "Great Vibes",
+        fontsourceId: "great-vibes",
+        textSelector: ".font-great-vibes",
+        preload: true,
+    },
+    {
+        family: "Roboto Mono",
+        fontsourceId: "roboto-mono",
+        textSelector: "body",
+        preload: true,
+    },
+];
+const TAILWIND_INPUT_CSS = `@tailwind base;
+@tailwind components;
+@tailwind utilities;
+`;
+const SITE_TITLE = "Eli Zibin";
+const SITE_DESCRIPTION = "Eli Zibin is web and mobile software developer in Vancouver, BC";
+const SITE_AUTHOR_NAME = "Eli Zibin";
+const SITE_AUTHOR_JOB_TITLE = "Staff software developer";
+const SITE_AUTHOR_EMPLOYER = { name: "Nearform", url: "https://www.nearform.com" };
+const SITE_AUTHOR_PROFILES = ["https://github.com/zibs"];
 const DEFAULT_SITE_URL = "https://elizibin.com";
 const SITE_URL = normalizeSiteUrl(process.env.SITE_URL ?? DEFAULT_SITE_URL);
 const INCLUDE_UNPUBLISHED_POSTS = parseEnvBoolean(
@@ -20,14 +114,75 @@ const PRIMARY_LINK_CLASSES =
 const BODY_CLASSES =
     "bg-[rgb(252,252,252)] dark:bg-[rgb(7,7,7)] text-black dark:text-[rgb(238,234,234)]";
 const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
-const MARKDOWN_LINK_PATTERN = /\[([^\]]+)\]\(([^)]+)\)/g;
-const PARAGRAPH_INLINE_MARKUP_PATTERN =
-    /`([^`\n]+)`|\[([^\]]+)\]\(([^)]+)\)|~~([^~\n]+)~~|(<\/?(?:i|em)>)/g;
+// Folders under blog/ that the build generates, so posts can't use them as slugs.
+const RESERVED_BLOG_SLUGS = ["tags", "series", "page"];
+const BLOG_FOOTNOTE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const BLOG_FOOTNOTES_LABEL_ID = "footnotes-label";
+const BLOG_TOC_LABEL_ID = "table-of-contents-label";
+const BLOG_RELATED_POSTS_LABEL_ID = "related-posts-label";
+// Ids the post page already uses, so heading slugs never collide with them.
+const BLOG_RESERVED_ELEMENT_IDS = [
+    BLOG_FOOTNOTES_LABEL_ID,
+    BLOG_TOC_LABEL_ID,
+    BLOG_RELATED_POSTS_LABEL_ID,
+];
+const BLOG_RELATED_POST_LIMIT = 3;
+const BLOG_READING_WORDS_PER_MINUTE = 230;
+const BLOG_WORD_PATTERN = /[\p{L}\p{N}]/u;
 const BLOG_LIST_LIKE_PARAGRAPH_PATTERN = /^\s*(?:[-*]\s+|\d+\.\s+)/;
+const BLOG_CALLOUT_LABELS: Record<BlogCalloutVariant, string> = {
+    note: "Note",
+    tip: "Tip",
+    warning: "Warning",
+    update: "Update",
+};
+const BLOG_TABLE_ALIGNMENTS: BlogTableAlignment[] = ["left", "center", "right"];
 const BLOG_CODE_THEME_LIGHT = "catppuccin-latte";
 const BLOG_CODE_THEME_DARK = "catppuccin-mocha";
-const BLOG_CODE_LANGUAGES = ["ts", "tsx", "js", "jsx", "json", "bash"] as const;
+// Grammars load on demand, so adding a language here only costs builds that use it.
+const BLOG_CODE_LANGUAGES = [
+    "ts",
+    "tsx",
+    "js",
+    "jsx",
+    "json",
+    "bash",
+    "swift",
+    "kotlin",
+    "python",
+    "yaml",
+    "toml",
+    "diff",
+    "html",
+    "css",
+    "sql",
+    "go",
+    "rust",
+    "markdown",
+    "text",
+] as const satisfies readonly (BundledLanguage | SpecialLanguage)[];
+const BLOG_CODE_LINE_RANGE_PATTERN = /^(\d+)(?:-(\d+))?$/;
+const BLOG_CODE_SHELL_PROMPT_PATTERN = /^[$%] /;
+const BLOG_CODE_REGION_START_PATTERN = /#region\s+(\S+)/;
+const BLOG_CODE_REGION_END_PATTERN = /#endregion\b/;
+const BLOG_CODE_REGION_MARKER_PATTERN = /#(?:end)?region\b/;
+// Extensions that aren't already a language name or alias.
+const BLOG_CODE_FILE_EXTENSION_LANGUAGES: Record<string, BlogCodeLanguage> = {
+    ".mjs": "js",
+    ".cjs": "js",
+    ".mts": "ts",
+    ".cts": "ts",
+    ".htm": "html",
+};
 const IMAGE_THEME_VARIANT_PATTERN = /-(dark|light)$/;
+const FEED_ENCLOSURE_MIME_TYPES: Record<string, string> = {
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".webp": "image/webp",
+    ".svg": "image/svg+xml",
+};
 const TWEET_EMBED_HOSTS = new Set([
     "twitter.com",
     "www.twitter.com",
@@ -49,6 +204,52 @@ const BLOG_CODE_LANGUAGE_ALIASES: Record<string, (typeof BLOG_CODE_LANGUAGES)[nu
     bash: "bash",
     sh: "bash",
     shell: "bash",
+    zsh: "bash",
+    swift: "swift",
+    kotlin: "kotlin",
+    kt: "kotlin",
+    kts: "kotlin",
+    python: "python",
+    py: "python",
+    yaml: "yaml",
+    yml: "yaml",
+    toml: "toml",
+    diff: "diff",
+    patch: "diff",
+    html: "html",
+    css: "css",
+    sql: "sql",
+    go: "go",
+    golang: "go",
+    rust: "rust",
+    rs: "rust",
+    markdown: "markdown",
+    md: "markdown",
+    text: "text",
+    txt: "text",
+    plaintext: "text",
+    plain: "text",
+};
+
+type SiteFontDefinition = {
+    family: string;
+    fontsourceId: string;
+    // Elements whose text is rendered in this face; their glyphs decide the subset.
+    textSelector: string;
+    preload: boolean;
+};
+
+type SiteFontSubset = (typeof SITE_FONT_SUBSETS)[number];
+
+type SiteFontFile = {
+    outputPath: string;
+    fontFaceCss: string;
+    preload: boolean;
+};
+
+type SiteHeadAssets = {
+    stylesheetPath: string;
+    preloadFontPaths: string[];
 };
 
 type RenderTools = {
@@ -61,6 +262,8 @@ type SocialMeta = {
     type?: "website" | "article";
     imagePath?: string | null;
     imageAlt?: string;
+    publishedTime?: Date;
+    modifiedTime?: Date;
 };
 
 type RenderPageOptions = {
@@ -69,13 +272,97 @@ type RenderPageOptions = {
     description: string;
     headingLinksHome?: boolean;
     socialMeta?: SocialMeta;
+    structuredData?: JsonLdNode[];
     content: string;
 };
 
 type BlogCodeLanguage = (typeof BLOG_CODE_LANGUAGES)[number];
 
-type BlogCodeHighlight = (code: string, language: string) => string;
-type BlogParagraphSpacing = "default" | "list-item" | "list-item-last";
+type BlogCodeSource = {
+    language: string;
+    code: string;
+    // `codeFile` blocks: where the snippet sits in its file, so errors can point there.
+    fileLocation?: BlogCodeFileLocation;
+};
+
+type BlogCodeFileLocation = {
+    // 1-based file line for each snippet line.
+    lineNumbers: number[];
+    // Columns stripped from every line by dedentBlogCodeLines.
+    indent: number;
+};
+
+type BlogCodeFileSelection = {
+    // 0-based index of the first selected file line.
+    startIndex: number;
+    lines: string[];
+};
+
+// Contents of `codeFile` blocks, keyed by block (see loadBlogCodeSnippets).
+type BlogCodeSnippetMap = Map<BlogCodeBlock, BlogCodeSource>;
+
+type BlogCodeTwoslash = Extract<TwoslashResult, { ok: true }>;
+
+type BlogCodeLineRanges =
+    | { ok: true; lineNumbers: Set<number> }
+    | { ok: false; outOfRangeLine: number | null };
+
+type BlogCodeHighlightOptions = {
+    highlightLines?: Set<number>;
+    showLineNumbers?: boolean;
+    diff?: boolean;
+    twoslash?: { hovers: TwoslashHover[]; queries: TwoslashQuery[] };
+};
+
+type BlogCodeHighlight = (
+    code: string,
+    language: string,
+    options?: BlogCodeHighlightOptions,
+) => string;
+type ResponsiveImageFormat = (typeof RESPONSIVE_IMAGE_FORMATS)[number];
+type ResponsiveImageVariant = {
+    format: ResponsiveImageFormat;
+    width: number;
+    outputPath: string;
+};
+type ResponsiveImage = {
+    width: number;
+    height: number;
+    variants: ResponsiveImageVariant[];
+};
+// Keyed by root-relative source path (see normalizeRootRelative).
+type ResponsiveImageMap = Map<string, ResponsiveImage>;
+type BlogFootnoteState = {
+    numbers: Map<string, number>;
+    referenceCounts: Map<string, number>;
+};
+type BlogRenderContext = {
+    highlightCode: BlogCodeHighlight;
+    responsiveImages: ResponsiveImageMap;
+    codeSnippets: BlogCodeSnippetMap;
+    linkablePosts: Map<string, BlogPost>;
+    footnotes?: BlogFootnoteState;
+    headingIds?: Map<BlogHeadingBlock, string>;
+    // Feed readers drop page scripts and CSS, so feed markup leaves out copy buttons and toggles.
+    feed?: boolean;
+};
+type BlogInlineContext = {
+    tools: RenderTools;
+    linkablePosts: Map<string, BlogPost>;
+    footnotes?: BlogFootnoteState;
+};
+type BlogInlineText = {
+    text: string;
+    fieldPath: string;
+};
+type BlogPictureOptions = {
+    lightPath: string;
+    darkPath?: string;
+    alt: string;
+    className: string;
+    maxHeightPx?: number;
+    lazy: boolean;
+};
 type BlogImageBlock = Extract<BlogBlock, { type: "image" }>;
 type ImageThemeVariant = "light" | "dark" | null;
 type FirstBlogImageBlock = {
@@ -97,6 +384,44 @@ type BlogInlineThemeImagePair = {
     caption?: string;
 };
 
+type BlogTagArchive = {
+    slug: string;
+    label: string;
+    posts: BlogPost[];
+};
+
+type BlogSeriesArchive = {
+    slug: string;
+    name: string;
+    // Sorted by part number.
+    posts: BlogPost[];
+};
+
+type BlogRelatedPost = {
+    post: BlogPost;
+    score: number;
+};
+
+type FeedEnclosure = {
+    url: string;
+    mimeType: string;
+    length: number;
+};
+
+type BlogReadingStats = {
+    wordCount: number;
+    readingMinutes: number;
+};
+
+type FeedEntry = {
+    post: BlogPost;
+    url: string;
+    publishedAt: Date;
+    updatedAt: Date;
+    contentHtml: string;
+    enclosure: FeedEnclosure | null;
+};
+
 function normalizeRootRelative(value: string): string {
     return value.replace(/^\/+/, "");
 }
@@ -203,6 +528,44 @@ function blogPostOutputPath(slug: string): string {
     return `blog/${encodeURIComponent(slug)}/index.html`;
 }
 
+function slugifyText(value: string): string {
+    return value
+        .trim()
+        .toLowerCase()
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+}
+
+function normalizeBlogTagSlug(tag: string): string {
+    return slugifyText(tag);
+}
+
+function blogOgCardOutputPath(slug: string): string {
+    return `blog/${encodeURIComponent(slug)}/og.png`;
+}
+
+function blogTagOutputPath(tag: string): string {
+    return `blog/tags/${encodeURIComponent(normalizeBlogTagSlug(tag))}/index.html`;
+}
+
+function blogIndexOutputPath(pageNumber: number): string {
+    return pageNumber === 1 ? BLOG_INDEX_PAGE : `blog/page/${pageNumber}/index.html`;
+}
+
+function blogSeriesOutputPath(seriesName: string): string {
+    return `blog/series/${encodeURIComponent(slugifyText(seriesName))}/index.html`;
+}
+
+function siteStylesheetPath(hash: string): string {
+    return `${SITE_STYLESHEET_DIR}/site.${hash}.css`;
+}
+
+function contentHash(contents: string | Uint8Array): string {
+    return createHash("sha256").update(contents).digest("hex").slice(0, 12);
+}
+
 function outputPathToPublicPath(outputPath: string): string {
     const normalized = toPosixPath(outputPath);
 
@@ -249,6 +612,18 @@ function parsePublishedAt(publishedAt: string): Date | null {
     return parsedDate;
 }
 
+function blogPostUpdatedAt(post: BlogPost): string {
+    return post.updatedAt ?? post.publishedAt;
+}
+
+function formatBlogWordCount(wordCount: number): string {
+    return wordCount === 1 ? "1 word" : `${wordCount.toLocaleString("en-US")} words`;
+}
+
+function formatBlogReadingTime(readingMinutes: number): string {
+    return `${readingMinutes} min read`;
+}
+
 function formatPublishedAt(publishedAt: string): string {
     const parsedDate = parsePublishedAt(publishedAt);
     if (!parsedDate) {
@@ -271,6 +646,176 @@ function formatSupportedBlogCodeLanguages(): string {
     return [...BLOG_CODE_LANGUAGES].join(", ");
 }
 
+/**
+ * Parses `highlightLines` ("3-5,9") into 1-based line numbers. Fails with a null
+ * `outOfRangeLine` when a part isn't a positive line number or an ascending range, or
+ * with the first line past `lineCount` otherwise. Ranges are checked before they're
+ * expanded, so a typo like "1-999999999" fails fast.
+ */
+function parseBlogCodeLineRanges(value: string, lineCount: number): BlogCodeLineRanges {
+    const lineNumbers = new Set<number>();
+    for (const part of value.split(",")) {
+        const rangeMatch = BLOG_CODE_LINE_RANGE_PATTERN.exec(part.trim());
+        if (!rangeMatch) {
+            return { ok: false, outOfRangeLine: null };
+        }
+
+        const start = Number(rangeMatch[1]);
+        const end = rangeMatch[2] === undefined ? start : Number(rangeMatch[2]);
+        if (start < 1 || end < start) {
+            return { ok: false, outOfRangeLine: null };
+        }
+
+        if (end > lineCount) {
+            return { ok: false, outOfRangeLine: Math.max(start, lineCount + 1) };
+        }
+
+        for (let lineNumber = start; lineNumber <= end; lineNumber += 1) {
+            lineNumbers.add(lineNumber);
+        }
+    }
+
+    return { ok: true, lineNumbers };
+}
+
+/**
+ * What the copy button puts on the clipboard, or null when that's the code as shown.
+ * Diff blocks drop "-" lines and the "+" marker; shell blocks with `$ ` / `% ` prompts
+ * keep only the prompted commands, without the prompt.
+ */
+function blogCodeCopyText(block: BlogCodeBlock, source: BlogCodeSource): string | null {
+    let lines = source.code.split("\n");
+    if (block.diff) {
+        lines = lines
+            .filter((line) => !line.startsWith("-"))
+            .map((line) => (line.startsWith("+") ? line.slice(1) : line));
+    }
+
+    if (
+        normalizeBlogCodeLanguage(source.language) === "bash" &&
+        lines.some((line) => BLOG_CODE_SHELL_PROMPT_PATTERN.test(line))
+    ) {
+        lines = lines
+            .filter((line) => BLOG_CODE_SHELL_PROMPT_PATTERN.test(line))
+            .map((line) => line.replace(BLOG_CODE_SHELL_PROMPT_PATTERN, ""));
+    }
+
+    const copyText = lines.join("\n");
+    return copyText === source.code ? null : copyText;
+}
+
+function blogCodeSource(block: BlogCodeBlock, codeSnippets: BlogCodeSnippetMap): BlogCodeSource {
+    if (block.codeFile === undefined) {
+        return { language: block.language, code: block.code };
+    }
+
+    const snippet = codeSnippets.get(block);
+    if (!snippet) {
+        throw new Error(`Code file "${block.codeFile}" was rendered before it was loaded.`);
+    }
+
+    return snippet;
+}
+
+function inferBlogCodeFileLanguage(codeFile: string): BlogCodeLanguage | null {
+    const extension = path.posix.extname(codeFile).toLowerCase();
+    return (
+        BLOG_CODE_FILE_EXTENSION_LANGUAGES[extension] ??
+        normalizeBlogCodeLanguage(extension.slice(1))
+    );
+}
+
+function selectBlogCodeLineRange(fileLines: string[], lines: string): BlogCodeFileSelection | null {
+    const rangeMatch = BLOG_CODE_LINE_RANGE_PATTERN.exec(lines.trim());
+    if (!rangeMatch) {
+        return null;
+    }
+
+    const start = Number(rangeMatch[1]);
+    const end = rangeMatch[2] === undefined ? start : Number(rangeMatch[2]);
+    if (start < 1 || end < start || end > fileLines.length) {
+        return null;
+    }
+
+    return { startIndex: start - 1, lines: fileLines.slice(start - 1, end) };
+}
+
+/**
+ * Returns the lines between `#region <name>` and its matching `#endregion`, whatever
+ * comment syntax wraps the markers. Nested regions are balanced so an inner
+ * `#endregion` doesn't end the outer one.
+ */
+function selectBlogCodeRegion(fileLines: string[], region: string): BlogCodeFileSelection | null {
+    const startIndex = fileLines.findIndex(
+        (line) => BLOG_CODE_REGION_START_PATTERN.exec(line)?.[1] === region,
+    );
+    if (startIndex === -1) {
+        return null;
+    }
+
+    let depth = 0;
+    for (let index = startIndex + 1; index < fileLines.length; index += 1) {
+        if (BLOG_CODE_REGION_START_PATTERN.test(fileLines[index])) {
+            depth += 1;
+        } else if (BLOG_CODE_REGION_END_PATTERN.test(fileLines[index])) {
+            if (depth === 0) {
+                return { startIndex: startIndex + 1, lines: fileLines.slice(startIndex + 1, index) };
+            }
+
+            depth -= 1;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Drops region marker lines and surrounding blank lines, then strips the indentation
+ * shared by every non-blank line so snippets cut from nested code start at column 0.
+ * Keeps each remaining line's file line number for error messages.
+ */
+function dedentBlogCodeLines(
+    selection: BlogCodeFileSelection,
+): { code: string; fileLocation: BlogCodeFileLocation } {
+    const codeLines = selection.lines
+        .map((text, index) => ({ text, lineNumber: selection.startIndex + index + 1 }))
+        .filter((line) => !BLOG_CODE_REGION_MARKER_PATTERN.test(line.text));
+    let start = 0;
+    let end = codeLines.length;
+    while (start < end && codeLines[start].text.trim() === "") {
+        start += 1;
+    }
+
+    while (end > start && codeLines[end - 1].text.trim() === "") {
+        end -= 1;
+    }
+
+    const keptLines = codeLines.slice(start, end);
+    const indent = Math.min(
+        ...keptLines
+            .filter((line) => line.text.trim() !== "")
+            .map((line) => /^[ \t]*/.exec(line.text)?.[0].length ?? 0),
+    );
+
+    return {
+        code: keptLines.map((line) => line.text.slice(indent)).join("\n"),
+        fileLocation: { lineNumbers: keptLines.map((line) => line.lineNumber), indent },
+    };
+}
+
+function blogCodeHighlightOptions(block: BlogCodeBlock, lineCount: number): BlogCodeHighlightOptions {
+    const highlightLines =
+        block.highlightLines === undefined
+            ? undefined
+            : parseBlogCodeLineRanges(block.highlightLines, lineCount);
+
+    return {
+        highlightLines: highlightLines?.ok ? highlightLines.lineNumbers : undefined,
+        showLineNumbers: block.showLineNumbers,
+        diff: block.diff,
+    };
+}
+
 function normalizeTweetEmbedUrl(value: string): string | null {
     const trimmedValue = value.trim();
     if (trimmedValue === "") {
@@ -302,13 +847,177 @@ function normalizeTweetEmbedUrl(value: string): string | null {
     return parsedUrl.toString();
 }
 
-async function createBlogCodeHighlighter(): Promise<BlogCodeHighlight> {
+/**
+ * Line-level styling as Shiki transformers. Classes land on the `<pre>` and each
+ * `<span class="line">`, so the light/dark colours stay in CSS alongside the themes.
+ */
+function createBlogCodeTransformers(
+    code: string,
+    options: BlogCodeHighlightOptions,
+): ShikiTransformer[] {
+    const { highlightLines, showLineNumbers, diff, twoslash } = options;
+    const sourceLines = code.split("\n");
+    const transformers: ShikiTransformer[] = [];
+
+    if (highlightLines || showLineNumbers || diff) {
+        transformers.push({
+            name: "blog-code-lines",
+            pre(node) {
+                this.addClassToHast(node, "blog-code-lines");
+            },
+        });
+    }
+
+    if (highlightLines) {
+        transformers.push({
+            name: "blog-code-highlight-lines",
+            line(node, lineNumber) {
+                if (highlightLines.has(lineNumber)) {
+                    this.addClassToHast(node, "blog-code-line-highlighted");
+                }
+            },
+        });
+    }
+
+    if (diff) {
+        transformers.push({
+            name: "blog-code-diff",
+            line(node, lineNumber) {
+                const marker = sourceLines[lineNumber - 1]?.[0];
+                if (marker === "+") {
+                    this.addClassToHast(node, "blog-code-line-added");
+                } else if (marker === "-") {
+                    this.addClassToHast(node, "blog-code-line-removed");
+                }
+            },
+        });
+    }
+
+    if (showLineNumbers) {
+        transformers.push({
+            name: "blog-code-line-numbers",
+            pre(node) {
+                this.addClassToHast(node, "blog-code-line-numbers");
+                // Size the gutter to the widest number so columns stay aligned past line 9/99.
+                const gutterWidth = `--blog-code-gutter:${String(sourceLines.length).length}ch`;
+                const style = node.properties.style;
+                node.properties.style = typeof style === "string" ? `${style};${gutterWidth}` : gutterWidth;
+            },
+        });
+    }
+
+    if (twoslash) {
+        transformers.push({
+            name: "blog-code-twoslash",
+            // Runs in the pre hook because Shiki's decorations, applied in the code hook
+            // after every transformer, expect the code element to hold only line spans.
+            pre(node) {
+                this.addClassToHast(node, "blog-code-twoslash");
+                const codeElement = node.children.find(
+                    (child): child is Element => child.type === "element" && child.tagName === "code",
+                );
+                if (!codeElement) {
+                    return;
+                }
+
+                // Bottom-up so earlier line positions stay valid while inserting.
+                for (const query of [...twoslash.queries].reverse()) {
+                    const lineIndex = codeElement.children.indexOf(this.lines[query.line]);
+                    const nextChild = codeElement.children[lineIndex + 1];
+                    // The block-level answer breaks the line itself, so it replaces the newline.
+                    const newlineCount = nextChild?.type === "text" && nextChild.value === "\n" ? 1 : 0;
+                    codeElement.children.splice(lineIndex + 1, newlineCount, {
+                        type: "element",
+                        tagName: "span",
+                        properties: {
+                            class: "blog-twoslash-query",
+                            style: `--blog-twoslash-column: ${query.character}`,
+                        },
+                        children: [twoslashPopupElement(query.text)],
+                    });
+                }
+            },
+        });
+    }
+
+    return transformers;
+}
+
+function twoslashPopupElement(text: string): Element {
+    return {
+        type: "element",
+        tagName: "span",
+        properties: { class: "blog-twoslash-popup" },
+        children: [{ type: "text", value: text }],
+    };
+}
+
+function blogTwoslashDecorations(hovers: TwoslashHover[]): DecorationItem[] {
+    return hovers.map((hover) => ({
+        start: { line: hover.line, character: hover.character },
+        end: { line: hover.line, character: hover.character + hover.length },
+        alwaysWrap: true,
+        // Focusable so keyboard and touch readers can open the popup too.
+        properties: { class: "blog-twoslash-hover", tabIndex: 0 },
+        transform(element) {
+            // Shiki splices the wrapped tokens by the length of this children array, so
+            // swap in a new array rather than pushing onto it.
+            element.children = [...element.children, twoslashPopupElement(hover.text)];
+        },
+    }));
+}
+
+/**
+ * Twoslash output for a `twoslash: true` block. Validation reports type errors with the
+ * post and field, so a failure here means the block skipped validation.
+ */
+function blogCodeTwoslash(source: BlogCodeSource): BlogCodeTwoslash {
+    const language = normalizeBlogCodeLanguage(source.language);
+    if (language !== "ts" && language !== "tsx") {
+        throw new Error(`Twoslash supports ts and tsx code only, not "${source.language}".`);
+    }
+
+    const result = runTwoslash(source.code, language);
+    if (!result.ok) {
+        throw new Error(`Twoslash code fails to type-check: ${result.errors[0].message}`);
+    }
+
+    return result;
+}
+
+function collectBlogCodeLanguages(
+    posts: BlogPost[],
+    codeSnippets: BlogCodeSnippetMap,
+): BlogCodeLanguage[] {
+    const languages = new Set<BlogCodeLanguage>();
+    for (const post of posts) {
+        for (const block of post.blocks) {
+            const language =
+                block.type === "code"
+                    ? normalizeBlogCodeLanguage(blogCodeSource(block, codeSnippets).language)
+                    : null;
+            if (language) {
+                languages.add(language);
+            }
+        }
+    }
+
+    return [...languages];
+}
+
+/**
+ * Loads Shiki grammars only for `languages` (the ones the built posts use). "text"
+ * needs no grammar and renders unhighlighted in the same themed block.
+ */
+async function createBlogCodeHighlighter(
+    languages: BlogCodeLanguage[],
+): Promise<BlogCodeHighlight> {
     const highlighter = await createHighlighter({
         themes: [BLOG_CODE_THEME_LIGHT, BLOG_CODE_THEME_DARK],
-        langs: [...BLOG_CODE_LANGUAGES],
+        langs: languages,
     });
 
-    return (code: string, language: string): string => {
+    return (code: string, language: string, options: BlogCodeHighlightOptions = {}): string => {
         const normalizedLanguage = normalizeBlogCodeLanguage(language);
         if (!normalizedLanguage) {
             throw new Error(
@@ -323,15 +1032,31 @@ async function createBlogCodeHighlighter(): Promise<BlogCodeHighlight> {
                 dark: BLOG_CODE_THEME_DARK,
             },
             defaultColor: false,
+            transformers: createBlogCodeTransformers(code, options),
+            decorations: options.twoslash ? blogTwoslashDecorations(options.twoslash.hovers) : undefined,
         });
     };
 }
 
+function renderStructuredData(tools: RenderTools, structuredData: JsonLdNode[]): string {
+    return structuredData
+        .map((node) => {
+            const error = validateJsonLd(node);
+            if (error) {
+                throw new Error(`Structured data for "${tools.outputPath}" is invalid: ${error}`);
+            }
+
+            return `<script type="application/ld+json">${serializeJsonLd(node)}</script>`;
+        })
+        .join("\n            ");
+}
+
 function renderHead(
     tools: RenderTools,
     title: string,
     description: string,
     socialMeta?: SocialMeta,
+    structuredData: JsonLdNode[] = [],
 ): string {
     const canonicalUrl = toAbsoluteSiteUrl(outputPathToPublicPath(tools.outputPath));
     const socialType = socialMeta?.type ?? "website";
@@ -351,10 +1076,38 @@ function renderHead(
                 content="${escapeHtml(description)}"
             />
             <link rel="canonical" href="${escapeHtml(canonicalUrl)}" />
+            <link
+                rel="alternate"
+                type="application/rss+xml"
+                title="${escapeHtml(SITE_TITLE)} (RSS)"
+                href="${tools.assetTo(RSS_FEED_PATH)}"
+            />
+            <link
+                rel="alternate"
+                type="application/atom+xml"
+                title="${escapeHtml(SITE_TITLE)} (Atom)"
+                href="${tools.assetTo(ATOM_FEED_PATH)}"
+            />
+            <link
+                rel="alternate"
+                type="application/feed+json"
+                title="${escapeHtml(SITE_TITLE)} (JSON Feed)"
+                href="${tools.assetTo(JSON_FEED_PATH)}"
+            />
             <meta property="og:type" content="${escapeHtml(socialType)}" />
             <meta property="og:title" content="${escapeHtml(title)}" />
             <meta property="og:description" content="${escapeHtml(description)}" />
             <meta property="og:url" content="${escapeHtml(canonicalUrl)}" />
+            ${
+                socialMeta?.publishedTime
+                    ? `<meta property="article:published_time" content="${socialMeta.publishedTime.toISOString()}" />`
+                    : ""
+            }
+            ${
+                socialMeta?.modifiedTime
+                    ? `<meta property="article:modified_time" content="${socialMeta.modifiedTime.toISOString()}" />`
+                    : ""
+            }
             ${
                 socialImageUrl
                     ? `<meta property="og:image" content="${escapeHtml(socialImageUrl)}" />`
@@ -378,37 +1131,10 @@ function renderHead(
                     ? `<meta name="twitter:image:alt" content="${escapeHtml(socialImageAlt)}" />`
                     : ""
             }
+            ${renderStructuredData(tools, structuredData)}
             <meta name="viewport" content="width=device-width, initial-scale=1" />
             <link rel="shortcut icon" href="${tools.assetTo("img/favicon.ico")}" type="image/x-icon" />
-            <link
-                href="https://fonts.googleapis.com/css?family=Abril+Fatface|Great+Vibes|Roboto+Mono"
-                rel="stylesheet"
-            />
-            <script src="https://cdn.tailwindcss.com?v=3.4.1"></script>
-            <script>
-                tailwind.config = {
-                    darkMode: "media",
-                    theme: {
-                        extend: {
-                            fontFamily: {
-                                abril: ['"Abril Fatface"', "cursive"],
-                                "great-vibes": ['"Great Vibes"', "cursive"],
-                                "roboto-mono": ['"Roboto Mono"', "monospace"],
-                            },
-                            colors: {
-                                primary: {
-                                    light: "rgba(0, 111, 255, 0.9)",
-                                    dark: "rgba(0, 255, 136, 0.9)",
-                                },
-                                secondary: {
-                                    light: "rgba(255, 0, 255, 0.9)",
-                                    dark: "rgba(255, 230, 0, 0.9)",
-                                },
-                            },
-                        },
-                    },
-                };
-            </script>
+            ${SITE_HEAD_ASSETS_MARKER}
             <style>
                 .gradient-text {
                     background: linear-gradient(
@@ -440,6 +1166,24 @@ function renderHead(
                     border: 1px solid rgba(0, 0, 0, 0.14);
                 }
 
+                .blog-kbd {
+                    font-family: "Roboto Mono", monospace;
+                    font-size: 0.85em;
+                    padding: 0.05rem 0.4rem;
+                    border-radius: 0.3rem;
+                    background: rgba(0, 0, 0, 0.04);
+                    border: 1px solid rgba(0, 0, 0, 0.2);
+                    border-bottom-width: 2px;
+                    white-space: nowrap;
+                }
+
+                .blog-highlight {
+                    color: inherit;
+                    padding: 0 0.15rem;
+                    border-radius: 0.2rem;
+                    background: rgba(255, 230, 0, 0.45);
+                }
+
                 .blog-code-block .shiki,
                 .blog-code-block .shiki span {
                     background-color: var(--shiki-light-bg);
@@ -460,57 +1204,246 @@ function renderHead(
                     line-height: 1.6;
                 }
 
-                .blog-tag-cloud {
-                    display: flex;
-                    flex-wrap: wrap;
-                    gap: 0.58rem;
+                .blog-code-block .shiki.blog-code-lines {
+                    padding-left: 0;
+                    padding-right: 0;
                 }
 
-                .blog-tag {
-                    --mx: 50%;
-                    --my: 50%;
-                    position: relative;
-                    isolation: isolate;
-                    display: inline-flex;
-                    align-items: center;
-                    justify-content: center;
-                    min-height: 1.7rem;
-                    padding: 0.31rem 0.66rem;
-                    border-radius: 999px;
-                    border: 1px solid transparent;
-                    background:
-                        linear-gradient(
-                            var(--tag-fill-angle),
-                            hsl(var(--tag-hue-a) 72% 98% / 0.74),
-                            rgba(255, 255, 255, 0.8) 45%,
-                            hsl(var(--tag-hue-c) 68% 98% / 0.66)
-                        ) padding-box,
-                        linear-gradient(
-                            var(--tag-border-angle),
-                            hsl(var(--tag-hue-a) 58% 74% / 0.54),
-                            hsl(var(--tag-hue-b) 60% 76% / 0.6) 46%,
-                            hsl(var(--tag-hue-c) 56% 72% / 0.52)
-                        ) border-box;
-                    box-shadow:
-                        0 9px 20px rgba(0, 0, 0, 0.06),
-                        inset 0 1px 0 rgba(255, 255, 255, 0.88);
-                    backdrop-filter: blur(18px) saturate(135%);
-                    -webkit-backdrop-filter: blur(18px) saturate(135%);
-                    overflow: hidden;
-                    cursor: default;
-                    user-select: none;
-                    -webkit-user-select: none;
-                    -webkit-tap-highlight-color: transparent;
-                    transform: translateY(0) scale(1);
-                    transition:
-                        transform 180ms ease,
-                        box-shadow 220ms ease,
-                        border-color 220ms ease;
+                .blog-code-block .shiki.blog-code-lines code {
+                    display: block;
+                    min-width: max-content;
                 }
 
-                .blog-tag::before {
-                    content: "";
-                    position: absolute;
+                .blog-code-block .shiki.blog-code-lines .line {
+                    display: inline-block;
+                    width: 100%;
+                    padding: 0 1.125rem;
+                }
+
+                .blog-code-block .shiki .line.blog-code-line-highlighted,
+                .blog-code-block .shiki .line.blog-code-line-added,
+                .blog-code-block .shiki .line.blog-code-line-removed {
+                    --blog-code-line-bg: rgba(124, 127, 147, 0.16);
+                    --blog-code-line-edge: rgba(114, 135, 253, 0.85);
+                    background-color: var(--blog-code-line-bg);
+                    box-shadow: inset 3px 0 0 var(--blog-code-line-edge);
+                }
+
+                .blog-code-block .shiki .line.blog-code-line-added {
+                    --blog-code-line-bg: rgba(64, 160, 43, 0.14);
+                    --blog-code-line-edge: rgba(64, 160, 43, 0.85);
+                }
+
+                .blog-code-block .shiki .line.blog-code-line-removed {
+                    --blog-code-line-bg: rgba(210, 15, 57, 0.12);
+                    --blog-code-line-edge: rgba(210, 15, 57, 0.8);
+                }
+
+                .blog-code-block .shiki .line.blog-code-line-highlighted span:not(.blog-twoslash-popup),
+                .blog-code-block .shiki .line.blog-code-line-added span:not(.blog-twoslash-popup),
+                .blog-code-block .shiki .line.blog-code-line-removed span:not(.blog-twoslash-popup) {
+                    background-color: transparent;
+                }
+
+                .blog-code-block .shiki.blog-code-line-numbers code {
+                    counter-reset: blog-code-line;
+                }
+
+                .blog-code-block .shiki.blog-code-line-numbers .line::before {
+                    counter-increment: blog-code-line;
+                    content: counter(blog-code-line);
+                    display: inline-block;
+                    width: var(--blog-code-gutter, 2ch);
+                    margin-right: 1.25rem;
+                    text-align: right;
+                    opacity: 0.45;
+                }
+
+                .blog-code-copy {
+                    padding: 0.2rem 0.65rem;
+                    border-radius: 999px;
+                    border: 1px solid rgba(0, 0, 0, 0.18);
+                    background-color: transparent;
+                    opacity: 0.75;
+                    cursor: pointer;
+                    transition:
+                        opacity 150ms ease,
+                        background-color 150ms ease;
+                }
+
+                .blog-code-copy[hidden] {
+                    display: none;
+                }
+
+                .blog-code-copy:hover,
+                .blog-code-copy:focus-visible {
+                    opacity: 1;
+                    background-color: rgba(0, 0, 0, 0.05);
+                }
+
+                .blog-code-expander {
+                    display: none;
+                }
+
+                @supports selector(:has(*)) {
+                    .blog-code-expander {
+                        display: block;
+                        margin-top: 0.6rem;
+                    }
+
+                    .blog-code-block:has(> .blog-code-expander:not([open])) .shiki {
+                        max-height: calc(var(--blog-code-collapsed-lines) * 1.44rem + 1rem);
+                        overflow-y: hidden;
+                        mask-image: linear-gradient(to bottom, #000 calc(100% - 2.5rem), transparent);
+                    }
+                }
+
+                .blog-code-expander summary {
+                    display: inline-flex;
+                    align-items: center;
+                    gap: 0.4rem;
+                    list-style: none;
+                    cursor: pointer;
+                    opacity: 0.75;
+                }
+
+                .blog-code-expander summary::-webkit-details-marker {
+                    display: none;
+                }
+
+                .blog-code-expander summary::after {
+                    content: "\\25BE";
+                    transition: transform 150ms ease;
+                }
+
+                .blog-code-expander[open] summary::after {
+                    transform: rotate(180deg);
+                }
+
+                .blog-code-expander[open] .blog-code-expander-more,
+                .blog-code-expander:not([open]) .blog-code-expander-less {
+                    display: none;
+                }
+
+                .blog-code-block .shiki.blog-code-twoslash {
+                    overflow: visible;
+                    white-space: pre-wrap;
+                    overflow-wrap: anywhere;
+                }
+
+                .blog-code-block .shiki .blog-twoslash-hover {
+                    position: relative;
+                    text-decoration: underline dotted rgba(0, 0, 0, 0.3);
+                    text-underline-offset: 0.2em;
+                }
+
+                .blog-code-block .shiki .blog-twoslash-popup {
+                    z-index: 10;
+                    width: max-content;
+                    max-width: min(36rem, 80vw);
+                    padding: 0.35rem 0.6rem;
+                    border-radius: 0.5rem;
+                    border: 1px solid rgba(0, 0, 0, 0.16);
+                    background-color: #e6e9ef;
+                    box-shadow: 0 10px 24px rgba(0, 0, 0, 0.12);
+                    font-size: 0.8rem;
+                    line-height: 1.5;
+                    white-space: pre-wrap;
+                }
+
+                .blog-code-block .shiki .blog-twoslash-hover .blog-twoslash-popup {
+                    position: absolute;
+                    top: calc(100% + 0.25rem);
+                    left: 0;
+                    display: none;
+                }
+
+                .blog-code-block .shiki .blog-twoslash-hover:hover .blog-twoslash-popup,
+                .blog-code-block .shiki .blog-twoslash-hover:focus-visible .blog-twoslash-popup,
+                .blog-code-block .shiki .blog-twoslash-hover:focus-within .blog-twoslash-popup {
+                    display: block;
+                }
+
+                .blog-code-block .shiki .blog-twoslash-query {
+                    display: block;
+                    padding-left: calc(var(--blog-twoslash-column) * 1ch);
+                    margin: 0.15rem 0 0.35rem;
+                }
+
+                .blog-code-block .shiki.blog-code-lines .blog-twoslash-query {
+                    padding-left: calc(var(--blog-twoslash-column) * 1ch + 1.125rem);
+                }
+
+                .blog-code-block .shiki.blog-code-line-numbers .blog-twoslash-query {
+                    padding-left: calc(
+                        var(--blog-twoslash-column) * 1ch + var(--blog-code-gutter, 2ch) + 2.375rem
+                    );
+                }
+
+                .blog-code-block .shiki .blog-twoslash-query .blog-twoslash-popup {
+                    display: inline-block;
+                }
+
+                @media (prefers-reduced-motion: reduce) {
+                    .blog-code-copy,
+                    .blog-code-expander summary::after {
+                        transition: none;
+                    }
+                }
+
+                .blog-tag-cloud {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 0.58rem;
+                }
+
+                .blog-tag {
+                    --mx: 50%;
+                    --my: 50%;
+                    position: relative;
+                    isolation: isolate;
+                    display: inline-flex;
+                    align-items: center;
+                    justify-content: center;
+                    min-height: 1.7rem;
+                    padding: 0.31rem 0.66rem;
+                    border-radius: 999px;
+                    border: 1px solid transparent;
+                    background:
+                        linear-gradient(
+                            var(--tag-fill-angle),
+                            hsl(var(--tag-hue-a) 72% 98% / 0.74),
+                            rgba(255, 255, 255, 0.8) 45%,
+                            hsl(var(--tag-hue-c) 68% 98% / 0.66)
+                        ) padding-box,
+                        linear-gradient(
+                            var(--tag-border-angle),
+                            hsl(var(--tag-hue-a) 58% 74% / 0.54),
+                            hsl(var(--tag-hue-b) 60% 76% / 0.6) 46%,
+                            hsl(var(--tag-hue-c) 56% 72% / 0.52)
+                        ) border-box;
+                    box-shadow:
+                        0 9px 20px rgba(0, 0, 0, 0.06),
+                        inset 0 1px 0 rgba(255, 255, 255, 0.88);
+                    backdrop-filter: blur(18px) saturate(135%);
+                    -webkit-backdrop-filter: blur(18px) saturate(135%);
+                    overflow: hidden;
+                    color: inherit;
+                    text-decoration: none;
+                    cursor: pointer;
+                    user-select: none;
+                    -webkit-user-select: none;
+                    -webkit-tap-highlight-color: transparent;
+                    transform: translateY(0) scale(1);
+                    transition:
+                        transform 180ms ease,
+                        box-shadow 220ms ease,
+                        border-color 220ms ease;
+                }
+
+                .blog-tag::before {
+                    content: "";
+                    position: absolute;
                     inset: -32%;
                     border-radius: inherit;
                     background:
@@ -567,6 +1500,11 @@ function renderHead(
                     text-shadow: 0 1px 16px rgba(255, 255, 255, 0.28);
                 }
 
+                .blog-tag:focus-visible {
+                    outline: 2px solid rgba(0, 111, 255, 0.9);
+                    outline-offset: 2px;
+                }
+
                 .blog-tag[data-active="true"] {
                     transform:
                         translateY(calc(-1 * var(--tag-hover-lift)))
@@ -586,6 +1524,128 @@ function renderHead(
                     transform: translateX(350%) skewX(-18deg);
                 }
 
+                .blog-footnote-ref {
+                    margin-left: 0.1em;
+                    font-size: 0.72em;
+                    line-height: 0;
+                }
+
+                .blog-footnote-ref,
+                [id^="fn-"] {
+                    scroll-margin-top: 1.5rem;
+                }
+
+                .blog-footnote-backref {
+                    text-decoration: none;
+                }
+
+                .blog-heading {
+                    scroll-margin-top: 1.5rem;
+                }
+
+                .blog-heading-anchor {
+                    margin-left: 0.4em;
+                    text-decoration: none;
+                    opacity: 0;
+                    transition: opacity 150ms ease;
+                }
+
+                .blog-heading:hover .blog-heading-anchor,
+                .blog-heading-anchor:focus-visible {
+                    opacity: 0.7;
+                }
+
+                @media (hover: none) {
+                    .blog-heading-anchor {
+                        opacity: 0.45;
+                    }
+                }
+
+                @media (prefers-reduced-motion: reduce) {
+                    .blog-heading-anchor {
+                        transition: none;
+                    }
+                }
+
+                .blog-table {
+                    overflow-x: auto;
+                    border: 1px solid rgba(0, 0, 0, 0.14);
+                    border-radius: 0.85rem;
+                }
+
+                .blog-table:focus-visible {
+                    outline: 2px solid rgba(0, 111, 255, 0.9);
+                    outline-offset: 2px;
+                }
+
+                .blog-table table {
+                    width: 100%;
+                    border-collapse: collapse;
+                }
+
+                .blog-table th,
+                .blog-table td {
+                    padding: 0.55rem 0.85rem;
+                    white-space: nowrap;
+                    text-align: left;
+                    border-bottom: 1px solid rgba(0, 0, 0, 0.08);
+                }
+
+                .blog-table th {
+                    font-weight: 700;
+                    background: rgba(0, 0, 0, 0.04);
+                    border-bottom-color: rgba(0, 0, 0, 0.14);
+                }
+
+                .blog-table th.text-center,
+                .blog-table td.text-center {
+                    text-align: center;
+                }
+
+                .blog-table th.text-right,
+                .blog-table td.text-right {
+                    text-align: right;
+                    font-variant-numeric: tabular-nums;
+                }
+
+                .blog-table tbody tr:last-child td {
+                    border-bottom: 0;
+                }
+
+                .blog-callout {
+                    --callout-accent: rgba(0, 111, 255, 0.9);
+                    display: grid;
+                    gap: 0.6rem;
+                    padding: 1rem 1.15rem;
+                    border: 1px solid rgba(0, 0, 0, 0.1);
+                    border-left: 4px solid var(--callout-accent);
+                    border-radius: 0.85rem;
+                    background: rgba(0, 0, 0, 0.03);
+                }
+
+                .blog-callout-tip {
+                    --callout-accent: rgba(0, 150, 80, 0.9);
+                }
+
+                .blog-callout-warning {
+                    --callout-accent: rgba(214, 120, 0, 0.95);
+                }
+
+                .blog-callout-update {
+                    --callout-accent: rgba(255, 0, 255, 0.85);
+                }
+
+                .blog-callout-label {
+                    margin: 0;
+                    font-family: "Roboto Mono", monospace;
+                    font-size: 0.68rem;
+                    font-weight: 700;
+                    letter-spacing: 0.09em;
+                    line-height: 1;
+                    text-transform: uppercase;
+                    color: var(--callout-accent);
+                }
+
                 .blog-collab-callout {
                     display: inline-flex;
                     align-items: center;
@@ -624,6 +1684,15 @@ function renderHead(
                         border-color: rgba(255, 255, 255, 0.28);
                     }
 
+                    .blog-kbd {
+                        background: rgba(255, 255, 255, 0.08);
+                        border-color: rgba(255, 255, 255, 0.32);
+                    }
+
+                    .blog-highlight {
+                        background: rgba(0, 255, 136, 0.28);
+                    }
+
                     .blog-code-block .shiki,
                     .blog-code-block .shiki span {
                         background-color: var(--shiki-dark-bg);
@@ -635,6 +1704,81 @@ function renderHead(
                         box-shadow: 0 18px 40px rgba(0, 0, 0, 0.45);
                     }
 
+                    .blog-code-copy {
+                        border-color: rgba(255, 255, 255, 0.28);
+                    }
+
+                    .blog-code-block .shiki .blog-twoslash-hover {
+                        text-decoration-color: rgba(255, 255, 255, 0.35);
+                    }
+
+                    .blog-code-block .shiki .blog-twoslash-popup {
+                        border-color: rgba(255, 255, 255, 0.2);
+                        background-color: #181825;
+                        box-shadow: 0 12px 28px rgba(0, 0, 0, 0.5);
+                    }
+
+                    .blog-code-copy:hover,
+                    .blog-code-copy:focus-visible {
+                        background-color: rgba(255, 255, 255, 0.08);
+                    }
+
+                    .blog-code-block .shiki .line.blog-code-line-highlighted {
+                        --blog-code-line-bg: rgba(147, 153, 178, 0.18);
+                        --blog-code-line-edge: rgba(180, 190, 254, 0.85);
+                    }
+
+                    .blog-code-block .shiki .line.blog-code-line-added {
+                        --blog-code-line-bg: rgba(166, 227, 161, 0.14);
+                        --blog-code-line-edge: rgba(166, 227, 161, 0.85);
+                    }
+
+                    .blog-code-block .shiki .line.blog-code-line-removed {
+                        --blog-code-line-bg: rgba(243, 139, 168, 0.14);
+                        --blog-code-line-edge: rgba(243, 139, 168, 0.85);
+                    }
+
+                    .blog-table {
+                        border-color: rgba(255, 255, 255, 0.2);
+                    }
+
+                    .blog-table:focus-visible {
+                        outline-color: rgba(0, 255, 136, 0.9);
+                    }
+
+                    .blog-table th,
+                    .blog-table td {
+                        border-bottom-color: rgba(255, 255, 255, 0.1);
+                    }
+
+                    .blog-table th {
+                        background: rgba(255, 255, 255, 0.06);
+                        border-bottom-color: rgba(255, 255, 255, 0.2);
+                    }
+
+                    .blog-callout {
+                        --callout-accent: rgba(0, 255, 136, 0.9);
+                        border-color: rgba(255, 255, 255, 0.16);
+                        border-left-color: var(--callout-accent);
+                        background: rgba(255, 255, 255, 0.05);
+                    }
+
+                    .blog-callout-tip {
+                        --callout-accent: rgba(0, 255, 136, 0.9);
+                    }
+
+                    .blog-callout-note {
+                        --callout-accent: rgba(110, 170, 255, 0.95);
+                    }
+
+                    .blog-callout-warning {
+                        --callout-accent: rgba(255, 230, 0, 0.9);
+                    }
+
+                    .blog-callout-update {
+                        --callout-accent: rgba(255, 120, 255, 0.9);
+                    }
+
                     .blog-tag {
                         backdrop-filter: blur(8px) saturate(112%);
                         -webkit-backdrop-filter: blur(8px) saturate(112%);
@@ -671,6 +1815,10 @@ function renderHead(
                             );
                     }
 
+                    .blog-tag:focus-visible {
+                        outline-color: rgba(0, 255, 136, 0.9);
+                    }
+
                     .blog-tag-label {
                         color: rgba(245, 243, 238, 0.95);
                         text-shadow: 0 1px 18px rgba(0, 0, 0, 0.52);
@@ -755,12 +1903,13 @@ function renderLayout({
     description,
     headingLinksHome = false,
     socialMeta,
+    structuredData,
     content,
 }: RenderPageOptions): string {
     return html(`
         <!DOCTYPE html>
         <html lang="en">
-        ${renderHead(tools, title, description, socialMeta)}
+        ${renderHead(tools, title, description, socialMeta, structuredData)}
             <body class="${BODY_CLASSES}">
                 <main class="container mx-auto px-4 py-8">
         ${renderHeader(tools, headingLinksHome)}
@@ -775,17 +1924,33 @@ function renderGithubIconLink(githubUrl: string, label: string): string {
     return `<a href="${escapeHtml(githubUrl)}" target="_blank" rel="noreferrer" aria-label="${escapeHtml(label)}" title="${escapeHtml(label)}" class="inline-flex items-center leading-none text-black/75 hover:text-black dark:text-white/80 dark:hover:text-white"><svg viewBox="0 0 16 16" width="12" height="12" aria-hidden="true" fill="currentColor"><path d="M8 0C3.58 0 0 3.58 0 8a8.01 8.01 0 0 0 5.47 7.59c.4.08.55-.17.55-.38 0-.19-.01-.82-.01-1.49-2.01.37-2.53-.49-2.69-.94-.09-.23-.48-.94-.82-1.13-.28-.15-.68-.52-.01-.53.63-.01 1.08.58 1.23.82.72 1.21 1.87.87 2.33.66.07-.52.28-.87.51-1.07-1.78-.2-3.64-.89-3.64-3.95 0-.87.31-1.59.82-2.15-.08-.2-.36-1.02.08-2.12 0 0 .67-.21 2.2.82A7.65 7.65 0 0 1 8 4.86a7.7 7.7 0 0 1 2 .27c1.53-1.04 2.2-.82 2.2-.82.44 1.1.16 1.92.08 2.12.51.56.82 1.27.82 2.15 0 3.07-1.87 3.75-3.65 3.95.29.25.54.73.54 1.48 0 1.07-.01 1.93-.01 2.2 0 .21.15.46.55.38A8.01 8.01 0 0 0 16 8c0-4.42-3.58-8-8-8Z"></path></svg></a>`;
 }
 
-function renderHomeBlogList(tools: RenderTools, blogEntries: BlogPost[]): string {
-    const allItems = blogEntries.map((post) => {
-        const postHref = tools.linkTo(blogPostOutputPath(post.slug));
-        const githubUrl = post.githubUrl;
-        const githubIconMarkup = githubUrl
-            ? renderGithubIconLink(githubUrl, "Open GitHub repository")
-            : "";
-        const metaRowMarkup = `<div class="mt-1 flex items-center gap-x-2"><span class="font-roboto-mono text-xs opacity-70">(${escapeHtml(formatPublishedAt(post.publishedAt))})</span>${githubIconMarkup}</div>`;
+function renderHomeBlogListItem(
+    tools: RenderTools,
+    post: BlogPost,
+    linkablePosts: Map<string, BlogPost>,
+): string {
+    const postHref = tools.linkTo(blogPostOutputPath(post.slug));
+    const githubUrl = post.githubUrl;
+    const githubIconMarkup = githubUrl
+        ? renderGithubIconLink(githubUrl, "Open GitHub repository")
+        : "";
+    const readingStats = blogPostReadingStats(post, linkablePosts);
+    const metaParts = [
+        formatPublishedAt(post.publishedAt),
+        ...(post.updatedAt ? [`updated ${formatPublishedAt(post.updatedAt)}`] : []),
+        formatBlogReadingTime(readingStats.readingMinutes),
+    ];
+    const metaRowMarkup = `<div class="mt-1 flex items-center gap-x-2"><span class="font-roboto-mono text-xs opacity-70">(${escapeHtml(metaParts.join(" · "))})</span>${githubIconMarkup}</div>`;
+
+    return `<li><div><a href="${postHref}" class="${PRIMARY_LINK_CLASSES}">${escapeHtml(post.title)}</a></div>${metaRowMarkup}<p class="font-roboto-mono text-base leading-relaxed mt-1">${renderParagraphInlineMarkup(post.summary)}</p></li>`;
+}
 
-        return `<li><div><a href="${postHref}" class="${PRIMARY_LINK_CLASSES}">${escapeHtml(post.title)}</a></div>${metaRowMarkup}<p class="font-roboto-mono text-base leading-relaxed mt-1">${renderParagraphInlineMarkup(post.summary)}</p></li>`;
-    });
+function renderHomeBlogList(
+    tools: RenderTools,
+    blogEntries: BlogPost[],
+    linkablePosts: Map<string, BlogPost>,
+): string {
+    const allItems = blogEntries.map((post) => renderHomeBlogListItem(tools, post, linkablePosts));
 
     if (allItems.length === 0) {
         return html(`
@@ -802,74 +1967,183 @@ function renderHomeBlogList(tools: RenderTools, blogEntries: BlogPost[]): string
     `);
 }
 
-function markdownLinkToHtml(label: string, href: string): string {
-    const trimmedHref = href.trim();
-    const externalLink =
-        trimmedHref.startsWith("http://") || trimmedHref.startsWith("https://");
+function renderHomeFeedLinks(tools: RenderTools): string {
+    return html(`
+        <p class="font-roboto-mono text-sm leading-relaxed mt-9 opacity-80">
+            Subscribe:
+            <a href="${tools.assetTo(RSS_FEED_PATH)}" class="${PRIMARY_LINK_CLASSES}">RSS</a>
+            /
+            <a href="${tools.assetTo(ATOM_FEED_PATH)}" class="${PRIMARY_LINK_CLASSES}">Atom</a>
+            /
+            <a href="${tools.assetTo(JSON_FEED_PATH)}" class="${PRIMARY_LINK_CLASSES}">JSON Feed</a>
+        </p>
+    `);
+}
+
+function markdownLinkToHtml(href: string, labelHtml: string): string {
+    const externalLink = href.startsWith("http://") || href.startsWith("https://");
     const targetAttributes = externalLink ? ` target="_blank" rel="noreferrer"` : "";
 
-    return `<a href="${escapeHtml(trimmedHref)}"${targetAttributes} class="${PRIMARY_LINK_CLASSES}">${escapeHtml(label)}</a>`;
+    return `<a href="${escapeHtml(href)}"${targetAttributes} class="${PRIMARY_LINK_CLASSES}">${labelHtml}</a>`;
 }
 
 function inlineCodeToHtml(value: string): string {
     return `<code class="blog-inline-code">${escapeHtml(value)}</code>`;
 }
 
-function inlineStrikethroughToHtml(value: string): string {
-    return `<s>${escapeHtml(value)}</s>`;
+function inlineKbdToHtml(value: string): string {
+    return `<kbd class="blog-kbd">${escapeHtml(value)}</kbd>`;
+}
+
+function footnoteReferenceToHtml(id: string, footnotes?: BlogFootnoteState): string {
+    const footnoteNumber = footnotes?.numbers.get(id);
+    if (!footnotes || footnoteNumber === undefined) {
+        return escapeHtml(`[^${id}]`);
+    }
+
+    const referenceCount = (footnotes.referenceCounts.get(id) ?? 0) + 1;
+    footnotes.referenceCounts.set(id, referenceCount);
+
+    return `<sup class="blog-footnote-ref" id="${blogFootnoteReferenceId(id, referenceCount)}"><a href="#fn-${id}" class="${PRIMARY_LINK_CLASSES}" aria-describedby="${BLOG_FOOTNOTES_LABEL_ID}">${footnoteNumber}</a></sup>`;
 }
 
-function inlineEmphasisTagToHtml(value: string): string {
-    return value;
+function blogPostLinkHref(
+    tools: RenderTools,
+    node: Extract<InlineNode, { type: "postLink" }>,
+): string {
+    const href = tools.linkTo(blogPostOutputPath(node.slug));
+    return node.fragment ? `${href}#${node.fragment}` : href;
 }
 
-function renderParagraphInlineMarkup(paragraph: string): string {
-    const matches = Array.from(paragraph.matchAll(PARAGRAPH_INLINE_MARKUP_PATTERN));
-    if (matches.length === 0) {
-        return escapeHtml(paragraph);
+function postLinkToHtml(
+    node: Extract<InlineNode, { type: "postLink" }>,
+    inline?: BlogInlineContext,
+): string {
+    const targetPost = inline?.linkablePosts.get(node.slug);
+    if (!inline || !targetPost) {
+        throw new Error(`Cross-post link to "${node.slug}" can't be resolved in this context.`);
     }
 
-    let cursor = 0;
-    let rendered = "";
+    const labelHtml =
+        node.children.length > 0
+            ? renderInlineNodes(node.children, inline)
+            : escapeHtml(targetPost.title);
 
-    for (const match of matches) {
-        const fullMatch = match[0];
-        const inlineCode = match[1];
-        const label = match[2];
-        const href = match[3];
-        const strikethrough = match[4];
-        const emphasisTag = match[5];
-        const matchIndex = match.index ?? 0;
+    return `<a href="${escapeHtml(blogPostLinkHref(inline.tools, node))}" class="${PRIMARY_LINK_CLASSES}">${labelHtml}</a>`;
+}
+
+function renderInlineNodes(nodes: InlineNode[], inline?: BlogInlineContext): string {
+    const footnotes = inline?.footnotes;
+    return nodes
+        .map((node) => {
+            switch (node.type) {
+                case "text":
+                    return escapeHtml(node.value);
+                case "code":
+                    return inlineCodeToHtml(node.value);
+                case "kbd":
+                    return inlineKbdToHtml(node.value);
+                case "link":
+                    return markdownLinkToHtml(node.href, renderInlineNodes(node.children, inline));
+                case "bold":
+                    return `<strong>${renderInlineNodes(node.children, inline)}</strong>`;
+                case "highlight":
+                    return `<mark class="blog-highlight">${renderInlineNodes(node.children, inline)}</mark>`;
+                case "strikethrough":
+                    return `<s>${renderInlineNodes(node.children, inline)}</s>`;
+                case "emphasis":
+                    return `<${node.tag}>${renderInlineNodes(node.children, inline)}</${node.tag}>`;
+                case "postLink":
+                    return postLinkToHtml(node, inline);
+                case "footnoteReference":
+                    return footnoteReferenceToHtml(node.id, footnotes);
+            }
+        })
+        .join("");
+}
 
-        rendered += escapeHtml(paragraph.slice(cursor, matchIndex));
+function formatInlineMarkupPosition(text: string, index: number): string {
+    const precedingLines = text.slice(0, index).split("\n");
+    const column = precedingLines[precedingLines.length - 1].length + 1;
+    const position =
+        precedingLines.length > 1
+            ? `line ${precedingLines.length}, column ${column}`
+            : `column ${column}`;
+    const excerpt = text.slice(index, index + 24).split("\n", 1)[0];
 
-        if (typeof inlineCode === "string") {
-            rendered += inlineCodeToHtml(inlineCode);
-        } else if (typeof strikethrough === "string") {
-            rendered += inlineStrikethroughToHtml(strikethrough);
-        } else if (typeof emphasisTag === "string") {
-            rendered += inlineEmphasisTagToHtml(emphasisTag);
-        } else if (typeof label === "string" && typeof href === "string") {
-            rendered += markdownLinkToHtml(label, href);
-        } else {
-            rendered += escapeHtml(fullMatch);
-        }
+    return `${position} (near "${excerpt}")`;
+}
 
-        cursor = matchIndex + fullMatch.length;
+function parseInlineMarkupOrThrow(text: string, context: string, fieldPath?: string): InlineNode[] {
+    const result = parseInlineMarkup(text);
+    if (!result.ok) {
+        const location = fieldPath ? ` in "${fieldPath}"` : "";
+        throw new Error(
+            `${context} has malformed inline markup${location} at ${formatInlineMarkupPosition(text, result.index)}: ${result.message}`,
+        );
     }
 
-    rendered += escapeHtml(paragraph.slice(cursor));
-    return rendered;
+    return result.nodes;
 }
 
-function renderHomePage(
-    tools: RenderTools,
-    blogEntries: BlogPost[],
+function renderParagraphInlineMarkup(paragraph: string, inline?: BlogInlineContext): string {
+    return renderInlineNodes(parseInlineMarkupOrThrow(paragraph, "Text"), inline);
+}
+
+/**
+ * Pinned posts first (in post order), then the rest newest first up to
+ * HOME_BLOG_POST_LIMIT. Pinned posts always show, even past the limit.
+ */
+function selectHomeBlogPosts(blogEntries: BlogPost[]): BlogPost[] {
+    const pinnedPosts = blogEntries.filter((post) => post.pinned);
+    const recentPosts = sortBlogPostsByPublishedAt(blogEntries.filter((post) => !post.pinned))
+        .slice(0, Math.max(0, HOME_BLOG_POST_LIMIT - pinnedPosts.length));
+
+    return [...pinnedPosts, ...recentPosts];
+}
+
+function siteAuthorStructuredData(): JsonLdNode {
+    return {
+        "@type": "Person",
+        name: SITE_AUTHOR_NAME,
+        url: toAbsoluteSiteUrl(outputPathToPublicPath(HOME_PAGE)),
+    };
+}
+
+function homeStructuredData(): JsonLdNode[] {
+    const homeUrl = toAbsoluteSiteUrl(outputPathToPublicPath(HOME_PAGE));
+
+    return [
+        {
+            "@context": "https://schema.org",
+            ...siteAuthorStructuredData(),
+            description: SITE_DESCRIPTION,
+            jobTitle: SITE_AUTHOR_JOB_TITLE,
+            worksFor: { "@type": "Organization", ...SITE_AUTHOR_EMPLOYER },
+            sameAs: SITE_AUTHOR_PROFILES,
+        },
+        {
+            "@context": "https://schema.org",
+            "@type": "WebSite",
+            name: SITE_TITLE,
+            url: homeUrl,
+            description: SITE_DESCRIPTION,
+            inLanguage: "en",
+            author: siteAuthorStructuredData(),
+        },
+    ];
+}
+
+function renderHomePage(
+    tools: RenderTools,
+    blogEntries: BlogPost[],
+    linkablePosts: Map<string, BlogPost>,
 ): string {
     return renderLayout({
         tools,
-        title: "Eli Zibin",
-        description: "Eli Zibin is web and mobile software developer in Vancouver, BC",
+        title: SITE_TITLE,
+        description: SITE_DESCRIPTION,
+        structuredData: homeStructuredData(),
         content: html(`
             <article class="max-w-3xl mx-auto mb-12">
                 <p class="font-roboto-mono text-lg leading-relaxed mb-9">
@@ -891,7 +2165,13 @@ function renderHomePage(
                 <p class="font-roboto-mono text-lg leading-relaxed mb-6">
                     Writing/OSS/Experiments:
                 </p>
-                ${renderHomeBlogList(tools, blogEntries)}
+                ${renderHomeBlogList(tools, selectHomeBlogPosts(blogEntries), linkablePosts)}
+                ${
+                    blogEntries.length > 0
+                        ? `<p class="font-roboto-mono text-base leading-relaxed mt-6"><a href="${tools.linkTo(BLOG_INDEX_PAGE)}" class="${PRIMARY_LINK_CLASSES}">All ${formatBlogPostCount(blogEntries.length)} &#8594;</a></p>`
+                        : ""
+                }
+                ${renderHomeFeedLinks(tools)}
             </section>
         `),
     });
@@ -912,6 +2192,81 @@ function resolveImageSource(
     return tools.assetTo(imagePath);
 }
 
+function imageDimensionAttributes(image: ResponsiveImage | undefined): string {
+    return image ? ` width="${image.width}" height="${image.height}"` : "";
+}
+
+function renderResponsiveImageSources(
+    tools: RenderTools,
+    image: ResponsiveImage | undefined,
+    media?: string,
+): string[] {
+    if (!image) {
+        return [];
+    }
+
+    const mediaAttribute = media ? ` media="${media}"` : "";
+
+    return RESPONSIVE_IMAGE_FORMATS.flatMap((format) => {
+        const variants = image.variants.filter((variant) => variant.format === format);
+        if (variants.length === 0) {
+            return [];
+        }
+
+        const srcset = variants
+            .map((variant) => `${tools.assetTo(variant.outputPath)} ${variant.width}w`)
+            .join(", ");
+
+        return [
+            `<source type="image/${format}" srcset="${escapeHtml(srcset)}" sizes="${RESPONSIVE_IMAGE_SIZES}"${imageDimensionAttributes(image)}${mediaAttribute} />`,
+        ];
+    });
+}
+
+function renderBlogPicture(
+    tools: RenderTools,
+    context: BlogRenderContext,
+    options: BlogPictureOptions,
+): string {
+    const imageSrc = resolveImageSource(tools, options.lightPath);
+    if (!imageSrc) {
+        return "";
+    }
+
+    const darkImageSrc = resolveImageSource(tools, options.darkPath);
+    const lightImage = context.responsiveImages.get(normalizeRootRelative(options.lightPath));
+    const darkImage = options.darkPath
+        ? context.responsiveImages.get(normalizeRootRelative(options.darkPath))
+        : undefined;
+    const darkMedia = "(prefers-color-scheme: dark)";
+    const sourceTags = darkImageSrc
+        ? [
+              ...renderResponsiveImageSources(tools, darkImage, darkMedia),
+              `<source srcset="${escapeHtml(darkImageSrc)}"${imageDimensionAttributes(darkImage)} media="${darkMedia}" />`,
+          ]
+        : [];
+    sourceTags.push(...renderResponsiveImageSources(tools, lightImage));
+
+    const imageTag = html(`
+        <img
+            src="${escapeHtml(imageSrc)}"
+            alt="${escapeHtml(options.alt)}"
+            ${lightImage ? `width="${lightImage.width}"\n            height="${lightImage.height}"` : ""}
+            ${options.lazy ? `loading="lazy"\n            decoding="async"` : ""}
+            class="${options.className}"
+            ${options.maxHeightPx ? `style="max-height: ${options.maxHeightPx}px;"` : ""}
+        />
+    `)
+        .trim()
+        .replace(/\n\s*\n/g, "\n");
+
+    if (sourceTags.length === 0) {
+        return imageTag;
+    }
+
+    return `<picture>\n    ${sourceTags.join("\n    ")}\n    ${imageTag.replaceAll("\n", "\n    ")}\n</picture>`;
+}
+
 function resolveBlogShareImage(post: BlogPost): { path: string; alt: string } | null {
     if (post.heroImage) {
         return {
@@ -935,6 +2290,15 @@ function resolveBlogShareImage(post: BlogPost): { path: string; alt: string } |
     };
 }
 
+function resolveBlogSocialImage(post: BlogPost): { path: string; alt: string } {
+    return (
+        resolveBlogShareImage(post) ?? {
+            path: blogOgCardOutputPath(post.slug),
+            alt: `Title card for ${post.title}`,
+        }
+    );
+}
+
 function normalizeImagePathIdentity(imagePath: string): string {
     const trimmedPath = imagePath.trim();
     if (trimmedPath === "") {
@@ -1073,15 +2437,21 @@ function shouldRenderBlogHeroImage(
     );
 }
 
-function renderBlogTags(tags: string[] | undefined): string {
+function renderBlogTags(
+    tools: RenderTools,
+    tags: string[] | undefined,
+    spacingClass = "mb-8",
+): string {
     if (!tags || tags.length === 0) {
         return "";
     }
 
-    const tagMarkup = tags.map((tag) => renderBlogTag(tag)).join("\n                        ");
+    const tagMarkup = tags
+        .map((tag) => `<span role="listitem" class="inline-flex">${renderBlogTag(tools, tag)}</span>`)
+        .join("\n                        ");
 
     return html(`
-        <div class="blog-tag-cloud mb-8" role="list" aria-label="Post tags">
+        <div class="blog-tag-cloud ${spacingClass}" role="list" aria-label="Post tags">
                         ${tagMarkup}
         </div>
     `);
@@ -1110,7 +2480,7 @@ function normalizeHue(value: number): number {
     return ((value % 360) + 360) % 360;
 }
 
-function renderBlogTag(tag: string): string {
+function renderBlogTag(tools: RenderTools, tag: string): string {
     const seed = hashTagSeed(tag);
     const family = BLOG_TAG_COLOR_FAMILIES[seed % BLOG_TAG_COLOR_FAMILIES.length];
     const hueA = normalizeHue(family[0] + (((seed >>> 5) % 11) - 5));
@@ -1135,7 +2505,7 @@ function renderBlogTag(tag: string): string {
     const hoverLift = (1.45 + ((seed >>> 7) % 5) * 0.12).toFixed(2);
     const hoverScale = (1.008 + ((seed >>> 12) % 4) * 0.004).toFixed(3);
 
-    return `<span class="blog-tag" role="listitem" data-active="false" style="--tag-hue-a: ${hueA}; --tag-hue-b: ${hueB}; --tag-hue-c: ${hueC}; --tag-dark-hue-a: ${darkHueA}; --tag-dark-hue-b: ${darkHueB}; --tag-dark-hue-c: ${darkHueC}; --tag-fill-angle: ${fillAngle}deg; --tag-border-angle: ${borderAngle}deg; --tag-shimmer-angle: ${shimmerAngle}deg; --tag-hover-lift: ${hoverLift}px; --tag-hover-scale: ${hoverScale};"><span class="blog-tag-label">${escapeHtml(tag)}</span></span>`;
+    return `<a href="${tools.linkTo(blogTagOutputPath(tag))}" class="blog-tag" data-active="false" style="--tag-hue-a: ${hueA}; --tag-hue-b: ${hueB}; --tag-hue-c: ${hueC}; --tag-dark-hue-a: ${darkHueA}; --tag-dark-hue-b: ${darkHueB}; --tag-dark-hue-c: ${darkHueC}; --tag-fill-angle: ${fillAngle}deg; --tag-border-angle: ${borderAngle}deg; --tag-shimmer-angle: ${shimmerAngle}deg; --tag-hover-lift: ${hoverLift}px; --tag-hover-scale: ${hoverScale};"><span class="blog-tag-label">${escapeHtml(tag)}</span></a>`;
 }
 
 function renderBlogTagPointerScript(): string {
@@ -1172,6 +2542,45 @@ function renderBlogTagPointerScript(): string {
     `);
 }
 
+/**
+ * Copy buttons ship hidden and only appear once this script finds a clipboard, so
+ * readers without JavaScript never see a button that can't work.
+ */
+function renderBlogCodeCopyScript(): string {
+    return html(`
+        <script>
+            (() => {
+                if (!navigator.clipboard) {
+                    return;
+                }
+
+                for (const button of document.querySelectorAll(".blog-code-copy")) {
+                    const code = button.closest("figure")?.querySelector(".blog-code-block code");
+                    if (!code) {
+                        continue;
+                    }
+
+                    let resetTimer;
+                    button.hidden = false;
+                    button.addEventListener("click", async () => {
+                        try {
+                            await navigator.clipboard.writeText(button.dataset.copy ?? code.textContent);
+                            button.textContent = "Copied";
+                        } catch {
+                            button.textContent = "Copy failed";
+                        }
+
+                        clearTimeout(resetTimer);
+                        resetTimer = setTimeout(() => {
+                            button.textContent = "Copy";
+                        }, 2000);
+                    });
+                }
+            })();
+        </script>
+    `);
+}
+
 function renderBlogCollaborativeCallout(): string {
     return html(`
         <p class="blog-collab-callout" aria-label="AI collaboration note">
@@ -1184,53 +2593,186 @@ function isListLikeBlogParagraph(text: string): boolean {
     return BLOG_LIST_LIKE_PARAGRAPH_PATTERN.test(text);
 }
 
-function blogParagraphMarginClass(spacing: BlogParagraphSpacing): string {
-    if (spacing === "list-item") {
-        return "mb-3";
-    }
+function renderBlogList(
+    style: BlogListStyle,
+    items: BlogListItem[],
+    inline: BlogInlineContext,
+    start?: number,
+    nested = false,
+): string {
+    const tagName = style === "ordered" ? "ol" : "ul";
+    const markerClass = style === "ordered" ? "list-decimal" : "list-disc";
+    const layoutClasses = nested ? "mt-3" : "font-roboto-mono text-lg leading-relaxed mb-7";
+    const startAttribute =
+        style === "ordered" && start !== undefined && start !== 1 ? ` start="${start}"` : "";
+    const itemMarkup = items.map((item) => {
+        if (typeof item === "string") {
+            return `<li>${renderParagraphInlineMarkup(item, inline)}</li>`;
+        }
 
-    if (spacing === "list-item-last") {
-        return "mb-6";
-    }
+        const nestedList = renderBlogList(item.style ?? style, item.items, inline, undefined, true);
+        return `<li>\n    ${renderParagraphInlineMarkup(item.text, inline)}\n    ${nestedList.replaceAll("\n", "\n    ")}\n</li>`;
+    });
 
-    return "mb-7";
+    return `<${tagName}${startAttribute} class="${markerClass} pl-7 space-y-3 ${layoutClasses}">\n    ${itemMarkup.join("\n").replaceAll("\n", "\n    ")}\n</${tagName}>`;
+}
+
+function renderBlogTableCell(
+    tagName: "th" | "td",
+    cell: BlogTableCell,
+    align: BlogTableAlignment | undefined,
+    inline: BlogInlineContext,
+): string {
+    const scopeAttribute = tagName === "th" ? ' scope="col"' : "";
+    const alignClass = align ? ` class="text-${align}"` : "";
+    const cellMarkup =
+        typeof cell === "number"
+            ? escapeHtml(String(cell))
+            : renderParagraphInlineMarkup(cell, inline);
+    return `<${tagName}${scopeAttribute}${alignClass}>${cellMarkup}</${tagName}>`;
 }
 
 function renderBlogBlock(
     tools: RenderTools,
     block: BlogBlock,
-    highlightCode: BlogCodeHighlight,
-    paragraphSpacing: BlogParagraphSpacing = "default",
+    context: BlogRenderContext,
 ): string {
+    const inline: BlogInlineContext = {
+        tools,
+        linkablePosts: context.linkablePosts,
+        footnotes: context.footnotes,
+    };
+
     if (block.type === "paragraph") {
-        const marginClass = blogParagraphMarginClass(paragraphSpacing);
-        return `<p class="font-roboto-mono text-lg leading-relaxed ${marginClass}">${renderParagraphInlineMarkup(block.text)}</p>`;
+        return `<p class="font-roboto-mono text-lg leading-relaxed mb-7">${renderParagraphInlineMarkup(block.text, inline)}</p>`;
+    }
+
+    if (block.type === "list") {
+        return renderBlogList(block.style, block.items, inline, block.start);
+    }
+
+    if (block.type === "table") {
+        const headerCells = block.columns
+            .map((column) =>
+                renderBlogTableCell("th", column.label, column.align, inline),
+            )
+            .join("");
+        const bodyRows = block.rows
+            .map(
+                (row) =>
+                    `<tr>${row
+                        .map((cell, cellIndex) =>
+                            renderBlogTableCell(
+                                "td",
+                                cell,
+                                block.columns[cellIndex]?.align,
+                                inline,
+                            ),
+                        )
+                        .join("")}</tr>`,
+            )
+            .join("\n                            ");
+
+        return html(`
+            <figure class="mb-9 max-w-3xl mx-auto">
+                <div class="blog-table" role="region" tabindex="0" aria-label="${escapeHtml(block.caption ?? "Table")}">
+                    <table class="font-roboto-mono text-sm leading-relaxed">
+                        <thead>
+                            <tr>${headerCells}</tr>
+                        </thead>
+                        <tbody>
+                            ${bodyRows}
+                        </tbody>
+                    </table>
+                </div>
+                ${
+                    block.caption
+                        ? `<figcaption class="font-roboto-mono text-sm leading-relaxed mt-3 opacity-80">${escapeHtml(block.caption)}</figcaption>`
+                        : ""
+                }
+            </figure>
+        `);
+    }
+
+    if (block.type === "callout") {
+        const label = BLOG_CALLOUT_LABELS[block.variant];
+        const paragraphMarkup = block.paragraphs
+            .map(
+                (paragraph) =>
+                    `<p class="font-roboto-mono text-base leading-relaxed">${renderParagraphInlineMarkup(paragraph, inline)}</p>`,
+            )
+            .join("\n                    ");
+
+        return html(`
+            <aside class="blog-callout blog-callout-${block.variant} mb-9 max-w-3xl mx-auto" role="note" aria-label="${escapeHtml(block.title ?? label)}">
+                <p class="blog-callout-label">${escapeHtml(label)}</p>
+                ${
+                    block.title
+                        ? `<p class="font-roboto-mono text-base font-bold leading-snug">${escapeHtml(block.title)}</p>`
+                        : ""
+                }
+                <div class="space-y-3">
+                    ${paragraphMarkup}
+                </div>
+            </aside>
+        `);
     }
 
     if (block.type === "heading") {
+        const headingId = context.headingIds?.get(block);
+        const idAttribute = headingId ? ` id="${headingId}"` : "";
+        const anchorMarkup = headingId
+            ? `<a href="#${headingId}" class="blog-heading-anchor ${PRIMARY_LINK_CLASSES}" aria-label="Link to section: ${escapeHtml(block.text)}">#</a>`
+            : "";
+        const headingContent = `${escapeHtml(block.text)}${anchorMarkup}`;
+
         if (block.level === 2) {
-            return `<h2 class="font-roboto-mono text-2xl md:text-3xl leading-tight tracking-normal mt-12 mb-6">${escapeHtml(block.text)}</h2>`;
+            return `<h2${idAttribute} class="blog-heading font-roboto-mono text-2xl md:text-3xl leading-tight tracking-normal mt-12 mb-6">${headingContent}</h2>`;
         }
 
         if (block.level === 3) {
-            return `<h3 class="font-roboto-mono text-xl md:text-2xl leading-tight tracking-normal mt-10 mb-5">${escapeHtml(block.text)}</h3>`;
+            return `<h3${idAttribute} class="blog-heading font-roboto-mono text-xl md:text-2xl leading-tight tracking-normal mt-10 mb-5">${headingContent}</h3>`;
         }
 
-        return `<h4 class="font-roboto-mono text-lg md:text-xl leading-tight tracking-normal mt-8 mb-4">${escapeHtml(block.text)}</h4>`;
+        return `<h4${idAttribute} class="blog-heading font-roboto-mono text-lg md:text-xl leading-tight tracking-normal mt-8 mb-4">${headingContent}</h4>`;
     }
 
     if (block.type === "code") {
-        const normalizedLanguage = normalizeBlogCodeLanguage(block.language);
-        const languageLabel = normalizedLanguage ? normalizedLanguage.toUpperCase() : block.language;
-        const highlightedCode = highlightCode(block.code, block.language);
+        const codeSource = blogCodeSource(block, context.codeSnippets);
+        const twoslash = block.twoslash ? blogCodeTwoslash(codeSource) : null;
+        // Twoslash drops its "// ^?" query lines; everything below works on the code as shown.
+        const source = twoslash ? { ...codeSource, code: twoslash.code } : codeSource;
+        const normalizedLanguage = normalizeBlogCodeLanguage(source.language);
+        const languageLabel = normalizedLanguage ? normalizedLanguage.toUpperCase() : source.language;
+        const lineCount = source.code.split("\n").length;
+        const highlightedCode = context.highlightCode(source.code, source.language, {
+            ...blogCodeHighlightOptions(block, lineCount),
+            twoslash: twoslash && !context.feed ? twoslash : undefined,
+        });
+        // Hover and query text sits inside the <code>, so twoslash blocks always carry their copy text.
+        const copyText = blogCodeCopyText(block, source) ?? (twoslash ? source.code : null);
+        const copyButtonMarkup = context.feed
+            ? ""
+            : `<button type="button" class="blog-code-copy font-roboto-mono text-xs"${copyText === null ? "" : ` data-copy="${escapeHtml(copyText)}"`} aria-live="polite" hidden>Copy</button>`;
+        const isCollapsible = !context.feed && block.collapsedAfterLines !== undefined;
 
         return html(`
             <figure class="mb-9 max-w-3xl mx-auto">
-                <p class="font-roboto-mono text-xs uppercase tracking-wider opacity-70 mb-3">
-                    ${escapeHtml(languageLabel)}
-                </p>
-                <div class="blog-code-block">
+                <div class="flex items-center justify-between gap-4 mb-3">
+                    ${
+                        block.filename
+                            ? `<p class="blog-code-filename font-roboto-mono text-xs tracking-wide opacity-70">${escapeHtml(block.filename)}</p>`
+                            : `<p class="font-roboto-mono text-xs uppercase tracking-wider opacity-70">${escapeHtml(languageLabel)}</p>`
+                    }
+                    ${copyButtonMarkup}
+                </div>
+                <div class="blog-code-block"${isCollapsible ? ` style="--blog-code-collapsed-lines: ${block.collapsedAfterLines};"` : ""}>
                     ${highlightedCode}
+                    ${
+                        isCollapsible
+                            ? `<details class="blog-code-expander"><summary class="font-roboto-mono text-xs"><span class="blog-code-expander-more">Show all ${lineCount} lines</span><span class="blog-code-expander-less">Show fewer lines</span></summary></details>`
+                            : ""
+                    }
                 </div>
                 ${
                     block.caption
@@ -1312,13 +2854,7 @@ function renderBlogBlock(
         `);
     }
 
-    const imageSrc = resolveImageSource(tools, block.src);
-    if (!imageSrc) {
-        return "";
-    }
-
     const themeImagePair = resolveBlogInlineThemeImagePair(block);
-    const darkImageSrc = resolveImageSource(tools, themeImagePair?.darkPath);
     const maxHeightPx =
         typeof block.maxHeightPx === "number" && Number.isFinite(block.maxHeightPx)
             ? Math.max(1, Math.round(block.maxHeightPx))
@@ -1327,32 +2863,17 @@ function renderBlogBlock(
     const imageAlignmentClasses = block.centered ? "block mx-auto" : "";
     const imageClassName =
         `${imageSizeClasses} ${imageAlignmentClasses} rounded-xl border border-black/10 dark:border-white/15`.trim();
-    const imageTag =
-        themeImagePair && darkImageSrc
-            ? html(`
-                <picture>
-                    <source
-                        srcset="${escapeHtml(darkImageSrc)}"
-                        media="(prefers-color-scheme: dark)"
-                    />
-                    <img
-                        src="${escapeHtml(imageSrc)}"
-                        alt="${escapeHtml(block.alt)}"
-                        loading="lazy"
-                        class="${imageClassName}"
-                        ${maxHeightPx ? `style="max-height: ${maxHeightPx}px;"` : ""}
-                    />
-                </picture>
-            `).trim()
-            : html(`
-                <img
-                    src="${escapeHtml(imageSrc)}"
-                    alt="${escapeHtml(block.alt)}"
-                    loading="lazy"
-                    class="${imageClassName}"
-                    ${maxHeightPx ? `style="max-height: ${maxHeightPx}px;"` : ""}
-                />
-            `).trim();
+    const imageTag = renderBlogPicture(tools, context, {
+        lightPath: block.src,
+        darkPath: themeImagePair?.darkPath,
+        alt: block.alt,
+        className: imageClassName,
+        maxHeightPx,
+        lazy: true,
+    });
+    if (!imageTag) {
+        return "";
+    }
 
     return html(`
         <figure class="mb-9 max-w-3xl mx-auto">
@@ -1369,209 +2890,1168 @@ function renderBlogBlock(
 function renderBlogBlocks(
     tools: RenderTools,
     blocks: BlogBlock[],
-    highlightCode: BlogCodeHighlight,
+    context: BlogRenderContext,
 ): string {
     return blocks
-        .map((block, index) => {
-            if (block.type !== "paragraph") {
-                return renderBlogBlock(tools, block, highlightCode);
-            }
-
-            if (!isListLikeBlogParagraph(block.text)) {
-                return renderBlogBlock(tools, block, highlightCode);
-            }
-
-            const nextBlock = blocks[index + 1];
-            const isNextListLikeParagraph =
-                nextBlock?.type === "paragraph" && isListLikeBlogParagraph(nextBlock.text);
-            const paragraphSpacing: BlogParagraphSpacing = isNextListLikeParagraph
-                ? "list-item"
-                : "list-item-last";
-
-            return renderBlogBlock(tools, block, highlightCode, paragraphSpacing);
-        })
+        .map((block) => renderBlogBlock(tools, block, context))
         .join("\n                ");
 }
 
-function renderBlogPostPage(
-    tools: RenderTools,
-    post: BlogPost,
-    highlightCode: BlogCodeHighlight,
-): string {
-    const shareImage = resolveBlogShareImage(post);
-    const heroThemeImagePair = resolveBlogHeroThemeImagePair(post);
-    const heroImageSrc = resolveImageSource(tools, post.heroImage);
-    const heroImageDarkSrc = resolveImageSource(tools, post.heroImageDark);
-    const hasTweetEmbed = post.blocks.some((block) => block.type === "tweet");
-    const hasBlogTags = Boolean(post.tags?.length);
-    const shouldRenderHeroImage = shouldRenderBlogHeroImage(post, heroThemeImagePair);
-    const heroThemeLightImageSrc = resolveImageSource(tools, heroThemeImagePair?.lightPath);
-    const heroThemeDarkImageSrc = resolveImageSource(tools, heroThemeImagePair?.darkPath);
-    const heroImageMarkup =
-        heroThemeImagePair && heroThemeLightImageSrc && heroThemeDarkImageSrc && shouldRenderHeroImage
-            ? html(`
-                <figure class="mb-9 max-w-3xl mx-auto">
-                    <picture>
-                        <source
-                            srcset="${escapeHtml(heroThemeDarkImageSrc)}"
-                            media="(prefers-color-scheme: dark)"
-                        />
-                        <img
-                            src="${escapeHtml(heroThemeLightImageSrc)}"
-                            alt="${escapeHtml(heroThemeImagePair.alt)}"
-                            class="w-full h-auto rounded-xl border border-black/10 dark:border-white/15"
-                        />
-                    </picture>
-                    ${
-                        heroThemeImagePair.caption
-                            ? `<figcaption class="font-roboto-mono text-sm leading-relaxed mt-3 opacity-80">${escapeHtml(heroThemeImagePair.caption)}</figcaption>`
-                            : ""
-                    }
-                </figure>
-            `)
-            : heroImageSrc && heroImageDarkSrc && shouldRenderHeroImage
-        ? html(`
-            <figure class="mb-9 max-w-3xl mx-auto">
-                <picture>
-                    <source
-                        srcset="${escapeHtml(heroImageDarkSrc)}"
-                        media="(prefers-color-scheme: dark)"
-                    />
-                    <img
-                        src="${escapeHtml(heroImageSrc)}"
-                        alt="Hero image for ${escapeHtml(post.title)}"
-                        class="w-full h-auto rounded-xl border border-black/10 dark:border-white/15"
-                    />
-                </picture>
-            </figure>
-        `)
-            : heroImageSrc && shouldRenderHeroImage
-        ? html(`
-            <figure class="mb-9 max-w-3xl mx-auto">
-                <img
-                    src="${escapeHtml(heroImageSrc)}"
-                    alt="Hero image for ${escapeHtml(post.title)}"
-                    class="w-full h-auto rounded-xl border border-black/10 dark:border-white/15"
-                />
-            </figure>
-        `)
-        : "";
-    const blogBlocksToRender = heroThemeImagePair
-        ? post.blocks.filter((_block, index) => index !== heroThemeImagePair.pairedBlockIndex)
-        : post.blocks;
-    const tweetWidgetScriptMarkup = hasTweetEmbed
-        ? `<script async src="https://platform.twitter.com/widgets.js" charset="utf-8"></script>`
-        : "";
-    const blogTagScriptMarkup = hasBlogTags ? renderBlogTagPointerScript() : "";
-
-    return renderLayout({
-        tools,
-        title: `${post.title} | Blog | Eli Zibin`,
-        description: post.summary,
-        headingLinksHome: true,
-        socialMeta: {
-            type: "article",
-            imagePath: shareImage?.path ?? null,
-            imageAlt: shareImage?.alt,
-        },
-        content: html(`
-            <article class="max-w-3xl mx-auto">
-                <p class="mb-9">
-                    <a
-                        href="${tools.linkTo(HOME_PAGE)}"
-                        class="inline-flex items-center text-2xl leading-none ${PRIMARY_LINK_CLASSES}"
-                        aria-label="Back home"
-                        title="Back home"
-                    >
-                        &#8592;
-                    </a>
-                </p>
-                <h2 class="font-roboto-mono text-2xl md:text-3xl tracking-normal leading-tight mb-3">
-                    ${escapeHtml(post.title)}
-                </h2>
-                <div class="flex flex-wrap items-center gap-x-3 gap-y-2 mb-4">
-                    <p class="font-roboto-mono text-sm leading-relaxed opacity-75 m-0">
-                        ${escapeHtml(formatPublishedAt(post.publishedAt))}
-                    </p>
-                    ${renderBlogCollaborativeCallout()}
-                </div>
-                ${renderBlogTags(post.tags)}
-                <p class="font-roboto-mono text-lg leading-relaxed mb-9">
-                    ${renderParagraphInlineMarkup(post.summary)}
-                </p>
-                ${heroImageMarkup}
-                ${renderBlogBlocks(tools, blogBlocksToRender, highlightCode)}
-            </article>
-            ${tweetWidgetScriptMarkup}
-            ${blogTagScriptMarkup}
-        `),
-    });
+function blogFootnoteReferenceId(id: string, referenceCount: number): string {
+    return referenceCount === 1 ? `fnref-${id}` : `fnref-${id}-${referenceCount}`;
 }
 
-function assertNonEmpty(
-    value: string,
-    fieldName: string,
-    entityType: string,
-    slug: string,
+function collectBlogListInlineTexts(
+    items: BlogListItem[],
+    fieldPath: string,
+    inlineTexts: BlogInlineText[],
 ): void {
-    if (value.trim() === "") {
-        throw new Error(
-            `${entityType} "${slug}" is missing a non-empty "${fieldName}" value.`,
-        );
+    for (const [itemIndex, item] of items.entries()) {
+        const itemPath = `${fieldPath}[${itemIndex}]`;
+        if (typeof item === "string") {
+            inlineTexts.push({ text: item, fieldPath: itemPath });
+            continue;
+        }
+
+        inlineTexts.push({ text: item.text, fieldPath: `${itemPath}.text` });
+        collectBlogListInlineTexts(item.items, `${itemPath}.items`, inlineTexts);
     }
 }
 
-function validateLocalImagePath(
-    imagePath: string,
-    entityType: string,
-    slug: string,
-    fieldName: string,
-): void {
-    if (/^https?:\/\//.test(imagePath)) {
-        return;
-    }
+/**
+ * Every block string that goes through `renderParagraphInlineMarkup`, in document order.
+ */
+function collectBlogInlineTexts(blocks: BlogBlock[]): BlogInlineText[] {
+    const inlineTexts: BlogInlineText[] = [];
+
+    for (const [blockIndex, block] of blocks.entries()) {
+        const blockPath = `blocks[${blockIndex}]`;
+
+        if (block.type === "paragraph") {
+            inlineTexts.push({ text: block.text, fieldPath: `${blockPath}.text` });
+        } else if (block.type === "list") {
+            collectBlogListInlineTexts(block.items, `${blockPath}.items`, inlineTexts);
+        } else if (block.type === "callout") {
+            for (const [paragraphIndex, paragraph] of block.paragraphs.entries()) {
+                inlineTexts.push({
+                    text: paragraph,
+                    fieldPath: `${blockPath}.paragraphs[${paragraphIndex}]`,
+                });
+            }
+        } else if (block.type === "table") {
+            for (const [columnIndex, column] of block.columns.entries()) {
+                inlineTexts.push({
+                    text: column.label,
+                    fieldPath: `${blockPath}.columns[${columnIndex}].label`,
+                });
+            }
 
-    const normalizedPath = normalizeRootRelative(imagePath);
-    if (normalizedPath.trim() === "") {
-        throw new Error(
-            `${entityType} "${slug}" has an empty "${fieldName}" path.`,
-        );
+            for (const [rowIndex, row] of block.rows.entries()) {
+                for (const [cellIndex, cell] of row.entries()) {
+                    if (typeof cell === "string") {
+                        inlineTexts.push({
+                            text: cell,
+                            fieldPath: `${blockPath}.rows[${rowIndex}][${cellIndex}]`,
+                        });
+                    }
+                }
+            }
+        }
     }
+
+    return inlineTexts;
 }
 
-function validateParagraphLink(
-    href: string,
-    entityType: string,
-    slug: string,
-    fieldName: string,
-): void {
-    const trimmedHref = href.trim();
-    if (trimmedHref === "") {
-        throw new Error(
-            `${entityType} "${slug}" has an empty markdown link in "${fieldName}".`,
-        );
-    }
+function countBlogWords(text: string): number {
+    return text.split(/\s+/).filter((word) => BLOG_WORD_PATTERN.test(word)).length;
+}
 
-    if (
-        trimmedHref.startsWith("/") ||
-        trimmedHref.startsWith("#") ||
-        trimmedHref.startsWith("mailto:") ||
-        trimmedHref.startsWith("tel:")
-    ) {
-        return;
+/**
+ * Counts reader-facing prose: paragraph, list, callout and table text, headings, and
+ * captions. Code blocks are skipped since readers scan rather than read them.
+ */
+function blogPostReadingStats(post: BlogPost, linkablePosts: Map<string, BlogPost>): BlogReadingStats {
+    let wordCount = 0;
+
+    for (const { text } of collectBlogInlineTexts(post.blocks)) {
+        wordCount += countBlogWords(inlineMarkupToPlainText(text, linkablePosts));
     }
 
-    try {
-        const parsedUrl = new URL(trimmedHref);
-        if (parsedUrl.protocol !== "https:" && parsedUrl.protocol !== "http:") {
-            throw new Error();
+    for (const block of post.blocks) {
+        if (block.type === "heading") {
+            wordCount += countBlogWords(block.text);
+        } else if (block.type === "callout") {
+            wordCount += countBlogWords(block.title ?? "");
+        } else if ("caption" in block && block.caption) {
+            wordCount += countBlogWords(block.caption);
         }
-    } catch {
-        throw new Error(
-            `${entityType} "${slug}" has an invalid markdown link in "${fieldName}": ${trimmedHref}`,
-        );
     }
-}
+
+    return {
+        wordCount,
+        readingMinutes: Math.max(1, Math.round(wordCount / BLOG_READING_WORDS_PER_MINUTE)),
+    };
+}
+
+function createBlogFootnoteState(post: BlogPost): BlogFootnoteState {
+    const numbers = new Map<string, number>();
+
+    for (const { text } of collectBlogInlineTexts(post.blocks)) {
+        walkInlineNodes(parseInlineMarkupOrThrow(text, `Blog post "${post.slug}"`), (node) => {
+            if (node.type === "footnoteReference" && !numbers.has(node.id)) {
+                numbers.set(node.id, numbers.size + 1);
+            }
+        });
+    }
+
+    return { numbers, referenceCounts: new Map() };
+}
+
+/**
+ * Every `fn-<id>` and `fnref-<id>[-n]` anchor the post's footnotes render, so headings
+ * can steer clear of them.
+ */
+function blogFootnoteElementIds(post: BlogPost): string[] {
+    const referenceCounts = new Map<string, number>();
+    for (const { text } of collectBlogInlineTexts(post.blocks)) {
+        walkInlineNodes(parseInlineMarkupOrThrow(text, `Blog post "${post.slug}"`), (node) => {
+            if (node.type === "footnoteReference") {
+                referenceCounts.set(node.id, (referenceCounts.get(node.id) ?? 0) + 1);
+            }
+        });
+    }
+
+    return Object.keys(post.footnotes ?? {}).flatMap((id) => [
+        `fn-${id}`,
+        ...Array.from({ length: referenceCounts.get(id) ?? 0 }, (_, index) =>
+            blogFootnoteReferenceId(id, index + 1),
+        ),
+    ]);
+}
+
+function renderBlogFootnotes(
+    tools: RenderTools,
+    post: BlogPost,
+    context: BlogRenderContext,
+    footnotes: BlogFootnoteState,
+): string {
+    if (footnotes.numbers.size === 0) {
+        return "";
+    }
+
+    const footnoteItems = Array.from(footnotes.numbers.keys()).map((id) => {
+        const referenceCount = footnotes.referenceCounts.get(id) ?? 0;
+        const backLinks = Array.from({ length: referenceCount }, (_, index) => {
+            const referenceNumber = index + 1;
+            const suffix = referenceCount > 1 ? `<sup>${referenceNumber}</sup>` : "";
+            return `<a href="#${blogFootnoteReferenceId(id, referenceNumber)}" class="blog-footnote-backref ${PRIMARY_LINK_CLASSES}" aria-label="Back to reference ${footnotes.numbers.get(id)}${referenceCount > 1 ? `.${referenceNumber}` : ""}">&#8617;${suffix}</a>`;
+        }).join(" ");
+
+        return `<li id="fn-${id}">${renderParagraphInlineMarkup(post.footnotes?.[id] ?? "", { tools, linkablePosts: context.linkablePosts })} ${backLinks}</li>`;
+    });
+
+    return html(`
+        <section class="mt-12 pt-6 border-t border-black/10 dark:border-white/15" aria-labelledby="${BLOG_FOOTNOTES_LABEL_ID}">
+            <h2 id="${BLOG_FOOTNOTES_LABEL_ID}" class="font-roboto-mono text-sm uppercase tracking-wider opacity-70 mb-4">Footnotes</h2>
+            <ol class="list-decimal pl-7 space-y-3 font-roboto-mono text-base leading-relaxed">
+                ${footnoteItems.join("\n                ")}
+            </ol>
+        </section>
+    `);
+}
+
+/**
+ * Assigns every heading a slug id from its text, suffixing repeats (`setup`, `setup-2`)
+ * so ids stay stable as long as the heading text and order do. Section label and
+ * footnote anchor ids count as taken.
+ */
+function createBlogHeadingIds(post: BlogPost): Map<BlogHeadingBlock, string> {
+    const headingIds = new Map<BlogHeadingBlock, string>();
+    const usedIds = new Set([...BLOG_RESERVED_ELEMENT_IDS, ...blogFootnoteElementIds(post)]);
+
+    for (const block of post.blocks) {
+        if (block.type !== "heading") {
+            continue;
+        }
+
+        const baseId = slugifyText(block.text) || "section";
+        let headingId = baseId;
+        for (let suffix = 2; usedIds.has(headingId); suffix += 1) {
+            headingId = `${baseId}-${suffix}`;
+        }
+
+        usedIds.add(headingId);
+        headingIds.set(block, headingId);
+    }
+
+    return headingIds;
+}
+
+function renderBlogTableOfContentsList(
+    entries: Array<{ block: BlogHeadingBlock; id: string }>,
+    nested = false,
+): string {
+    const items: string[] = [];
+
+    for (let index = 0; index < entries.length; ) {
+        const { block, id } = entries[index];
+        let childEnd = index + 1;
+        while (childEnd < entries.length && entries[childEnd].block.level > block.level) {
+            childEnd += 1;
+        }
+
+        const children = entries.slice(index + 1, childEnd);
+        const linkMarkup = `<a href="#${id}" class="${PRIMARY_LINK_CLASSES}">${escapeHtml(block.text)}</a>`;
+        items.push(
+            children.length > 0
+                ? `<li>\n    ${linkMarkup}\n    ${renderBlogTableOfContentsList(children, true).replaceAll("\n", "\n    ")}\n</li>`
+                : `<li>${linkMarkup}</li>`,
+        );
+        index = childEnd;
+    }
+
+    const listClasses = nested ? "space-y-2 mt-2 pl-5" : "space-y-2";
+    return `<ol class="${listClasses}">\n    ${items.join("\n").replaceAll("\n", "\n    ")}\n</ol>`;
+}
+
+function renderBlogTableOfContents(headingIds: Map<BlogHeadingBlock, string>): string {
+    const entries = Array.from(headingIds, ([block, id]) => ({ block, id }));
+    if (entries.length === 0) {
+        return "";
+    }
+
+    return html(`
+        <nav class="blog-toc mb-9 font-roboto-mono text-base leading-relaxed" aria-labelledby="${BLOG_TOC_LABEL_ID}">
+            <h2 id="${BLOG_TOC_LABEL_ID}" class="font-roboto-mono text-sm uppercase tracking-wider opacity-70 mb-3">Contents</h2>
+            ${renderBlogTableOfContentsList(entries)}
+        </nav>
+    `);
+}
+
+/**
+ * Renders a post's blocks followed by its footnotes. Footnote numbering and
+ * back-links are tracked per call, so pages and feed entries each get a fresh count.
+ */
+function renderBlogArticleBody(
+    tools: RenderTools,
+    post: BlogPost,
+    blocks: BlogBlock[],
+    context: BlogRenderContext,
+): string {
+    const footnotes = createBlogFootnoteState(post);
+    const blocksMarkup = renderBlogBlocks(tools, blocks, {
+        ...context,
+        footnotes,
+        headingIds: createBlogHeadingIds(post),
+    });
+    const footnotesMarkup = renderBlogFootnotes(tools, post, context, footnotes);
+
+    return footnotesMarkup === ""
+        ? blocksMarkup
+        : `${blocksMarkup}\n                ${footnotesMarkup}`;
+}
+
+function collectBlogSeries(postEntries: BlogPost[]): BlogSeriesArchive[] {
+    const seriesBySlug = new Map<string, BlogSeriesArchive>();
+
+    for (const post of postEntries) {
+        if (!post.series) {
+            continue;
+        }
+
+        const seriesSlug = slugifyText(post.series.name);
+        const series = seriesBySlug.get(seriesSlug);
+        if (series) {
+            series.posts.push(post);
+            continue;
+        }
+
+        seriesBySlug.set(seriesSlug, {
+            slug: seriesSlug,
+            name: post.series.name.trim(),
+            posts: [post],
+        });
+    }
+
+    for (const series of seriesBySlug.values()) {
+        series.posts.sort((a, b) => (a.series?.part ?? 0) - (b.series?.part ?? 0));
+    }
+
+    return [...seriesBySlug.values()].sort((a, b) => a.slug.localeCompare(b.slug));
+}
+
+function renderBlogSeriesBanner(tools: RenderTools, post: BlogPost, postEntries: BlogPost[]): string {
+    if (!post.series) {
+        return "";
+    }
+
+    const seriesSlug = slugifyText(post.series.name);
+    const series = collectBlogSeries(postEntries).find((entry) => entry.slug === seriesSlug);
+    if (!series) {
+        return "";
+    }
+
+    const partItems = series.posts.map((part) =>
+        part.slug === post.slug
+            ? `<li aria-current="page"><span class="font-bold">${escapeHtml(part.title)}</span></li>`
+            : `<li><a href="${tools.linkTo(blogPostOutputPath(part.slug))}" class="${PRIMARY_LINK_CLASSES}">${escapeHtml(part.title)}</a></li>`,
+    );
+
+    return html(`
+        <nav class="blog-series mb-9 font-roboto-mono text-base leading-relaxed" aria-label="${escapeHtml(`Series: ${series.name}`)}">
+            <p class="text-sm mb-3"><span class="uppercase tracking-wider opacity-70">Part ${post.series.part} of ${series.posts.length}</span> in <a href="${tools.linkTo(blogSeriesOutputPath(series.name))}" class="${PRIMARY_LINK_CLASSES}">${escapeHtml(series.name)}</a></p>
+            <ol class="list-decimal pl-7 space-y-2">
+                ${partItems.join("\n                ")}
+            </ol>
+        </nav>
+    `);
+}
+
+function githubOwner(githubUrl: string | undefined): string | null {
+    if (!githubUrl) {
+        return null;
+    }
+
+    try {
+        const parsedUrl = new URL(githubUrl);
+        if (parsedUrl.hostname !== "github.com" && parsedUrl.hostname !== "www.github.com") {
+            return null;
+        }
+
+        return parsedUrl.pathname.split("/").filter(Boolean)[0]?.toLowerCase() ?? null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Scores every other post by shared tag slugs plus one for a shared GitHub owner,
+ * keeping the post order for ties.
+ */
+function collectBlogRelatedPosts(post: BlogPost, postEntries: BlogPost[]): BlogRelatedPost[] {
+    const tagSlugs = new Set((post.tags ?? []).map(normalizeBlogTagSlug));
+    const owner = githubOwner(post.githubUrl);
+
+    return postEntries
+        .filter((candidate) => candidate.slug !== post.slug)
+        .map((candidate) => {
+            const sharedTagCount = (candidate.tags ?? []).filter((tag) =>
+                tagSlugs.has(normalizeBlogTagSlug(tag)),
+            ).length;
+            const sharedOwner = owner !== null && githubOwner(candidate.githubUrl) === owner;
+            return { post: candidate, score: sharedTagCount + (sharedOwner ? 1 : 0) };
+        })
+        .filter((related) => related.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, BLOG_RELATED_POST_LIMIT);
+}
+
+function renderBlogPostNavigationLink(
+    tools: RenderTools,
+    post: BlogPost | undefined,
+    direction: "prev" | "next",
+): string {
+    if (!post) {
+        return "<span></span>";
+    }
+
+    const label = direction === "prev" ? "&#8592; Previous post" : "Next post &#8594;";
+    const alignClass = direction === "prev" ? "" : " sm:text-right";
+    return `<a href="${tools.linkTo(blogPostOutputPath(post.slug))}" rel="${direction}" class="block${alignClass} ${PRIMARY_LINK_CLASSES}"><span class="block text-xs uppercase tracking-wider opacity-70">${label}</span><span class="block mt-1">${escapeHtml(post.title)}</span></a>`;
+}
+
+/**
+ * Previous/next links follow the post order (newest first), so "previous" is the
+ * older neighbour. Only posts in this build are considered, which keeps drafts out
+ * of production footers.
+ */
+function renderBlogPostFooter(
+    tools: RenderTools,
+    post: BlogPost,
+    postEntries: BlogPost[],
+): string {
+    const postIndex = postEntries.findIndex((entry) => entry.slug === post.slug);
+    const olderPost = postIndex === -1 ? undefined : postEntries[postIndex + 1];
+    const newerPost = postIndex > 0 ? postEntries[postIndex - 1] : undefined;
+    const relatedPosts = collectBlogRelatedPosts(post, postEntries);
+
+    if (!olderPost && !newerPost && relatedPosts.length === 0) {
+        return "";
+    }
+
+    const navigationMarkup =
+        olderPost || newerPost
+            ? html(`
+                <nav class="grid gap-6 sm:grid-cols-2 font-roboto-mono text-base leading-relaxed" aria-label="More posts">
+                    ${renderBlogPostNavigationLink(tools, olderPost, "prev")}
+                    ${renderBlogPostNavigationLink(tools, newerPost, "next")}
+                </nav>
+            `)
+            : "";
+    const relatedItems = relatedPosts.map(
+        ({ post: relatedPost }) =>
+            `<li><a href="${tools.linkTo(blogPostOutputPath(relatedPost.slug))}" class="${PRIMARY_LINK_CLASSES}">${escapeHtml(relatedPost.title)}</a> <span class="text-xs opacity-70">(${escapeHtml(formatPublishedAt(relatedPost.publishedAt))})</span></li>`,
+    );
+    const relatedMarkup =
+        relatedItems.length > 0
+            ? html(`
+                <section class="mt-10" aria-labelledby="${BLOG_RELATED_POSTS_LABEL_ID}">
+                    <h2 id="${BLOG_RELATED_POSTS_LABEL_ID}" class="font-roboto-mono text-sm uppercase tracking-wider opacity-70 mb-4">Related posts</h2>
+                    <ul class="list-disc pl-7 space-y-3 font-roboto-mono text-base leading-relaxed">
+                        ${relatedItems.join("\n                        ")}
+                    </ul>
+                </section>
+            `)
+            : "";
+
+    return html(`
+        <footer class="mt-12 pt-6 border-t border-black/10 dark:border-white/15">
+            ${navigationMarkup}
+            ${relatedMarkup}
+        </footer>
+    `);
+}
+
+function renderBlogDate(date: string): string {
+    return `<time datetime="${escapeHtml(date)}">${escapeHtml(formatPublishedAt(date))}</time>`;
+}
+
+function renderBlogPostMeta(post: BlogPost, linkablePosts: Map<string, BlogPost>): string {
+    const readingStats = blogPostReadingStats(post, linkablePosts);
+    const metaParts = [
+        renderBlogDate(post.publishedAt),
+        ...(post.updatedAt ? [`Updated ${renderBlogDate(post.updatedAt)}`] : []),
+        formatBlogWordCount(readingStats.wordCount),
+        formatBlogReadingTime(readingStats.readingMinutes),
+    ];
+
+    return metaParts.join(" · ");
+}
+
+function blogPostStructuredData(post: BlogPost, linkablePosts: Map<string, BlogPost>): JsonLdNode {
+    const postUrl = toAbsoluteSiteUrl(outputPathToPublicPath(blogPostOutputPath(post.slug)));
+    const shareImage = resolveBlogSocialImage(post);
+
+    return {
+        "@context": "https://schema.org",
+        "@type": "BlogPosting",
+        headline: post.title,
+        description: inlineMarkupToPlainText(post.summary),
+        url: postUrl,
+        mainEntityOfPage: postUrl,
+        datePublished: post.publishedAt,
+        dateModified: blogPostUpdatedAt(post),
+        image: toAbsoluteShareImageUrl(shareImage.path),
+        keywords: post.tags?.length ? post.tags : undefined,
+        wordCount: blogPostReadingStats(post, linkablePosts).wordCount,
+        author: siteAuthorStructuredData(),
+        isPartOf: post.series
+            ? {
+                  "@type": "CreativeWorkSeries",
+                  name: post.series.name,
+                  url: toAbsoluteSiteUrl(
+                      outputPathToPublicPath(blogSeriesOutputPath(post.series.name)),
+                  ),
+              }
+            : undefined,
+        // schema.org puts codeRepository on SoftwareSourceCode, so the repo is what the post is about.
+        about: post.githubUrl
+            ? { "@type": "SoftwareSourceCode", codeRepository: post.githubUrl }
+            : undefined,
+    };
+}
+
+function renderBlogPostPage(
+    tools: RenderTools,
+    post: BlogPost,
+    postEntries: BlogPost[],
+    context: BlogRenderContext,
+): string {
+    const shareImage = resolveBlogSocialImage(post);
+    const heroThemeImagePair = resolveBlogHeroThemeImagePair(post);
+    const hasTweetEmbed = post.blocks.some((block) => block.type === "tweet");
+    const hasCodeBlocks = post.blocks.some((block) => block.type === "code");
+    const hasBlogTags = Boolean(post.tags?.length);
+    const shouldRenderHeroImage = shouldRenderBlogHeroImage(post, heroThemeImagePair);
+    const heroImageClassName =
+        "w-full h-auto rounded-xl border border-black/10 dark:border-white/15";
+    const heroPictureMarkup =
+        !post.heroImage || !shouldRenderHeroImage
+            ? ""
+            : heroThemeImagePair
+              ? renderBlogPicture(tools, context, {
+                    lightPath: heroThemeImagePair.lightPath,
+                    darkPath: heroThemeImagePair.darkPath,
+                    alt: heroThemeImagePair.alt,
+                    className: heroImageClassName,
+                    lazy: false,
+                })
+              : renderBlogPicture(tools, context, {
+                    lightPath: post.heroImage,
+                    darkPath: post.heroImageDark,
+                    alt: `Hero image for ${post.title}`,
+                    className: heroImageClassName,
+                    lazy: false,
+                });
+    const heroImageMarkup = heroPictureMarkup
+        ? html(`
+            <figure class="mb-9 max-w-3xl mx-auto">
+                ${heroPictureMarkup}
+                ${
+                    heroThemeImagePair?.caption
+                        ? `<figcaption class="font-roboto-mono text-sm leading-relaxed mt-3 opacity-80">${escapeHtml(heroThemeImagePair.caption)}</figcaption>`
+                        : ""
+                }
+            </figure>
+        `)
+        : "";
+    const blogBlocksToRender = heroThemeImagePair
+        ? post.blocks.filter((_block, index) => index !== heroThemeImagePair.pairedBlockIndex)
+        : post.blocks;
+    const tweetWidgetScriptMarkup = hasTweetEmbed
+        ? `<script async src="https://platform.twitter.com/widgets.js" charset="utf-8"></script>`
+        : "";
+    const blogTagScriptMarkup = hasBlogTags ? renderBlogTagPointerScript() : "";
+    const codeCopyScriptMarkup = hasCodeBlocks ? renderBlogCodeCopyScript() : "";
+
+    return renderLayout({
+        tools,
+        title: `${post.title} | Blog | Eli Zibin`,
+        description: post.summary,
+        headingLinksHome: true,
+        socialMeta: {
+            type: "article",
+            imagePath: shareImage.path,
+            imageAlt: shareImage.alt,
+            publishedTime: parsePublishedAt(post.publishedAt) ?? undefined,
+            modifiedTime: parsePublishedAt(blogPostUpdatedAt(post)) ?? undefined,
+        },
+        structuredData: [blogPostStructuredData(post, context.linkablePosts)],
+        content: html(`
+            <article class="max-w-3xl mx-auto">
+                <p class="mb-9">
+                    <a
+                        href="${tools.linkTo(HOME_PAGE)}"
+                        class="inline-flex items-center text-2xl leading-none ${PRIMARY_LINK_CLASSES}"
+                        aria-label="Back home"
+                        title="Back home"
+                    >
+                        &#8592;
+                    </a>
+                </p>
+                <h2 class="font-roboto-mono text-2xl md:text-3xl tracking-normal leading-tight mb-3">
+                    ${escapeHtml(post.title)}
+                </h2>
+                <div class="flex flex-wrap items-center gap-x-3 gap-y-2 mb-4">
+                    <p class="font-roboto-mono text-sm leading-relaxed opacity-75 m-0">
+                        ${renderBlogPostMeta(post, context.linkablePosts)}
+                    </p>
+                    ${renderBlogCollaborativeCallout()}
+                </div>
+                ${renderBlogTags(tools, post.tags)}
+                <p class="font-roboto-mono text-lg leading-relaxed mb-9">
+                    ${renderParagraphInlineMarkup(post.summary)}
+                </p>
+                ${renderBlogSeriesBanner(tools, post, postEntries)}
+                ${post.toc ? renderBlogTableOfContents(createBlogHeadingIds(post)) : ""}
+                ${heroImageMarkup}
+                ${renderBlogArticleBody(tools, post, blogBlocksToRender, context)}
+                ${renderBlogPostFooter(tools, post, postEntries)}
+            </article>
+            ${tweetWidgetScriptMarkup}
+            ${blogTagScriptMarkup}
+            ${codeCopyScriptMarkup}
+        `),
+    });
+}
+
+function collectBlogTagArchives(postEntries: BlogPost[]): BlogTagArchive[] {
+    const archivesBySlug = new Map<string, BlogTagArchive>();
+
+    for (const post of postEntries) {
+        for (const tag of post.tags ?? []) {
+            const tagSlug = normalizeBlogTagSlug(tag);
+            const archive = archivesBySlug.get(tagSlug);
+            if (archive) {
+                archive.posts.push(post);
+                continue;
+            }
+
+            archivesBySlug.set(tagSlug, { slug: tagSlug, label: tag.trim(), posts: [post] });
+        }
+    }
+
+    return [...archivesBySlug.values()].sort((a, b) => a.slug.localeCompare(b.slug));
+}
+
+function formatBlogPostCount(count: number): string {
+    return count === 1 ? "1 post" : `${count} posts`;
+}
+
+function renderBlogTagIndexPage(tools: RenderTools, tagArchives: BlogTagArchive[]): string {
+    const tagItems = tagArchives.map(
+        (archive) =>
+            `<li><a href="${tools.linkTo(blogTagOutputPath(archive.label))}" class="${PRIMARY_LINK_CLASSES}">${escapeHtml(archive.label)}</a> <span class="font-roboto-mono text-xs opacity-70">(${formatBlogPostCount(archive.posts.length)})</span></li>`,
+    );
+    const tagListMarkup =
+        tagItems.length === 0
+            ? html(`
+                <p class="font-roboto-mono text-lg leading-relaxed">
+                    No tags yet.
+                </p>
+            `)
+            : html(`
+                <ul class="font-roboto-mono text-lg leading-relaxed list-disc pl-7 space-y-3">
+                        ${tagItems.join("\n                        ")}
+                </ul>
+            `);
+
+    return renderLayout({
+        tools,
+        title: `Tags | Blog | ${SITE_TITLE}`,
+        description: `Every blog tag on ${SITE_TITLE}'s site, with post counts.`,
+        headingLinksHome: true,
+        content: html(`
+            <section class="max-w-3xl mx-auto">
+                <p class="mb-9">
+                    <a
+                        href="${tools.linkTo(HOME_PAGE)}"
+                        class="inline-flex items-center text-2xl leading-none ${PRIMARY_LINK_CLASSES}"
+                        aria-label="Back home"
+                        title="Back home"
+                    >
+                        &#8592;
+                    </a>
+                </p>
+                <h2 class="font-roboto-mono text-2xl md:text-3xl tracking-normal leading-tight mb-9">
+                    Tags
+                </h2>
+                ${tagListMarkup}
+            </section>
+        `),
+    });
+}
+
+function renderBlogTagPage(
+    tools: RenderTools,
+    archive: BlogTagArchive,
+    linkablePosts: Map<string, BlogPost>,
+): string {
+    return renderLayout({
+        tools,
+        title: `${archive.label} | Blog | ${SITE_TITLE}`,
+        description: `Posts tagged "${archive.label}" by ${SITE_AUTHOR_NAME}.`,
+        headingLinksHome: true,
+        content: html(`
+            <section class="max-w-3xl mx-auto">
+                <p class="mb-9">
+                    <a
+                        href="${tools.linkTo(BLOG_TAG_INDEX_PAGE)}"
+                        class="inline-flex items-center text-2xl leading-none ${PRIMARY_LINK_CLASSES}"
+                        aria-label="All tags"
+                        title="All tags"
+                    >
+                        &#8592;
+                    </a>
+                </p>
+                <div class="blog-tag-cloud mb-4">
+                    ${renderBlogTag(tools, archive.label)}
+                </div>
+                <p class="font-roboto-mono text-sm leading-relaxed opacity-75 mb-9">
+                    ${formatBlogPostCount(archive.posts.length)}
+                </p>
+                ${renderHomeBlogList(tools, archive.posts, linkablePosts)}
+            </section>
+            ${renderBlogTagPointerScript()}
+        `),
+    });
+}
+
+function sortBlogPostsByPublishedAt(postEntries: BlogPost[]): BlogPost[] {
+    return [...postEntries].sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+}
+
+function renderBlogIndexItem(
+    tools: RenderTools,
+    post: BlogPost,
+    linkablePosts: Map<string, BlogPost>,
+): string {
+    const metaParts = [
+        formatPublishedAt(post.publishedAt),
+        formatBlogReadingTime(blogPostReadingStats(post, linkablePosts).readingMinutes),
+    ];
+
+    return html(`
+        <li>
+            <a href="${tools.linkTo(blogPostOutputPath(post.slug))}" class="${PRIMARY_LINK_CLASSES}">${escapeHtml(post.title)}</a>
+            <p class="font-roboto-mono text-xs opacity-70 mt-1">${escapeHtml(metaParts.join(" · "))}</p>
+            ${renderBlogTags(tools, post.tags, "mt-2")}
+        </li>
+    `);
+}
+
+function renderBlogIndexPagination(tools: RenderTools, pageNumber: number, pageCount: number): string {
+    if (pageCount <= 1) {
+        return "";
+    }
+
+    const newerLink =
+        pageNumber > 1
+            ? `<a href="${tools.linkTo(blogIndexOutputPath(pageNumber - 1))}" rel="prev" class="${PRIMARY_LINK_CLASSES}">&#8592; Newer posts</a>`
+            : "<span></span>";
+    const olderLink =
+        pageNumber < pageCount
+            ? `<a href="${tools.linkTo(blogIndexOutputPath(pageNumber + 1))}" rel="next" class="${PRIMARY_LINK_CLASSES}">Older posts &#8594;</a>`
+            : "<span></span>";
+
+    return html(`
+        <nav class="flex items-center justify-between gap-4 mt-12 font-roboto-mono text-base" aria-label="Blog pages">
+            ${newerLink}
+            <span class="text-sm opacity-70">Page ${pageNumber} of ${pageCount}</span>
+            ${olderLink}
+        </nav>
+    `);
+}
+
+/**
+ * One page of the blog archive: posts newest first, grouped under a heading per
+ * publication year.
+ */
+function renderBlogIndexPage(
+    tools: RenderTools,
+    pagePosts: BlogPost[],
+    pageNumber: number,
+    pageCount: number,
+    totalPostCount: number,
+    linkablePosts: Map<string, BlogPost>,
+): string {
+    const postsByYear = new Map<string, BlogPost[]>();
+    for (const post of pagePosts) {
+        const year = post.publishedAt.slice(0, 4);
+        postsByYear.set(year, [...(postsByYear.get(year) ?? []), post]);
+    }
+
+    const yearSections = Array.from(postsByYear, ([year, yearPosts]) =>
+        html(`
+            <section class="mb-10" aria-labelledby="blog-year-${year}">
+                <h3 id="blog-year-${year}" class="font-roboto-mono text-xl tracking-normal leading-tight mb-5">${year}</h3>
+                <ul class="font-roboto-mono text-lg leading-relaxed list-disc pl-7 space-y-5">
+                    ${yearPosts.map((post) => renderBlogIndexItem(tools, post, linkablePosts)).join("\n")}
+                </ul>
+            </section>
+        `),
+    );
+    const hasBlogTags = pagePosts.some((post) => post.tags?.length);
+
+    return renderLayout({
+        tools,
+        title: pageNumber === 1 ? `Blog | ${SITE_TITLE}` : `Blog (page ${pageNumber}) | ${SITE_TITLE}`,
+        description: `Every post by ${SITE_AUTHOR_NAME}, grouped by year.`,
+        headingLinksHome: true,
+        content: html(`
+            <section class="max-w-3xl mx-auto">
+                <p class="mb-9">
+                    <a
+                        href="${tools.linkTo(HOME_PAGE)}"
+                        class="inline-flex items-center text-2xl leading-none ${PRIMARY_LINK_CLASSES}"
+                        aria-label="Back home"
+                        title="Back home"
+                    >
+                        &#8592;
+                    </a>
+                </p>
+                <h2 class="font-roboto-mono text-2xl md:text-3xl tracking-normal leading-tight mb-3">
+                    Blog
+                </h2>
+                <p class="font-roboto-mono text-sm leading-relaxed opacity-75 mb-9">
+                    ${formatBlogPostCount(totalPostCount)} · <a href="${tools.linkTo(BLOG_TAG_INDEX_PAGE)}" class="${PRIMARY_LINK_CLASSES}">Browse by tag</a>
+                </p>
+                ${
+                    yearSections.length > 0
+                        ? yearSections.join("\n")
+                        : `<p class="font-roboto-mono text-lg leading-relaxed">Nothing published yet.</p>`
+                }
+                ${renderBlogIndexPagination(tools, pageNumber, pageCount)}
+            </section>
+            ${hasBlogTags ? renderBlogTagPointerScript() : ""}
+        `),
+    });
+}
+
+function renderBlogSeriesPage(
+    tools: RenderTools,
+    series: BlogSeriesArchive,
+    linkablePosts: Map<string, BlogPost>,
+): string {
+    return renderLayout({
+        tools,
+        title: `${series.name} | Blog | ${SITE_TITLE}`,
+        description: `"${series.name}", a ${series.posts.length}-part series by ${SITE_AUTHOR_NAME}.`,
+        headingLinksHome: true,
+        content: html(`
+            <section class="max-w-3xl mx-auto">
+                <p class="mb-9">
+                    <a
+                        href="${tools.linkTo(HOME_PAGE)}"
+                        class="inline-flex items-center text-2xl leading-none ${PRIMARY_LINK_CLASSES}"
+                        aria-label="Back home"
+                        title="Back home"
+                    >
+                        &#8592;
+                    </a>
+                </p>
+                <h2 class="font-roboto-mono text-2xl md:text-3xl tracking-normal leading-tight mb-3">
+                    ${escapeHtml(series.name)}
+                </h2>
+                <p class="font-roboto-mono text-sm leading-relaxed opacity-75 mb-9">
+                    ${series.posts.length === 1 ? "1 part" : `${series.posts.length} parts`}
+                </p>
+                <ol class="font-roboto-mono text-lg leading-relaxed list-decimal pl-7 space-y-5">
+                    ${series.posts.map((post) => renderHomeBlogListItem(tools, post, linkablePosts)).join("\n                    ")}
+                </ol>
+            </section>
+        `),
+    });
+}
+
+function createFeedRenderTools(outputPath: string): RenderTools {
+    return {
+        outputPath,
+        linkTo(targetOutputPath: string) {
+            return toAbsoluteSiteUrl(outputPathToPublicPath(targetOutputPath));
+        },
+        assetTo(rootRelativePath: string) {
+            return toAbsoluteSiteUrl(`/${normalizeRootRelative(rootRelativePath)}`);
+        },
+    };
+}
+
+/**
+ * Feed readers resolve relative URLs against their own page, so root-relative paths get
+ * the site origin and same-page fragments (footnotes, headings) get the post URL.
+ */
+function absolutizeFeedHtmlReferences(markup: string, pageUrl: string): string {
+    return markup
+        .replace(
+            /(href|src)="\/(?!\/)([^"]*)"/g,
+            (_match, attribute: string, rootRelativePath: string) =>
+                `${attribute}="${escapeHtml(toAbsoluteSiteUrl(`/${rootRelativePath}`))}"`,
+        )
+        .replace(
+            /href="#([^"]*)"/g,
+            (_match, fragment: string) => `href="${escapeHtml(pageUrl)}#${fragment}"`,
+        );
+}
+
+function feedImageMimeType(imagePath: string): string | null {
+    const [pathWithoutQuery] = imagePath.split(/[?#]/, 1);
+    const extension = path.posix.extname(pathWithoutQuery).toLowerCase();
+    return FEED_ENCLOSURE_MIME_TYPES[extension] ?? null;
+}
+
+async function resolveFeedEnclosure(post: BlogPost): Promise<FeedEnclosure | null> {
+    const shareImage = resolveBlogSocialImage(post);
+    const mimeType = feedImageMimeType(shareImage.path);
+    if (!mimeType) {
+        return null;
+    }
+
+    if (/^https?:\/\//.test(shareImage.path)) {
+        return { url: shareImage.path, mimeType, length: 0 };
+    }
+
+    const imageStat = await stat(path.join(ROOT_DIR, normalizeRootRelative(shareImage.path)));
+    return {
+        url: toAbsoluteShareImageUrl(shareImage.path),
+        mimeType,
+        length: imageStat.size,
+    };
+}
+
+async function createFeedEntries(
+    postEntries: BlogPost[],
+    context: BlogRenderContext,
+): Promise<FeedEntry[]> {
+    const feedEntries: FeedEntry[] = [];
+
+    for (const post of postEntries) {
+        const outputPath = blogPostOutputPath(post.slug);
+        const publishedAt = parsePublishedAt(post.publishedAt);
+        if (!publishedAt) {
+            throw new Error(
+                `Blog post "${post.slug}" has invalid "publishedAt" value "${post.publishedAt}". Use YYYY-MM-DD.`,
+            );
+        }
+
+        const feedTools = createFeedRenderTools(outputPath);
+        const url = toAbsoluteSiteUrl(outputPathToPublicPath(outputPath));
+        feedEntries.push({
+            post,
+            url,
+            publishedAt,
+            updatedAt: parsePublishedAt(blogPostUpdatedAt(post)) ?? publishedAt,
+            contentHtml: absolutizeFeedHtmlReferences(
+                renderBlogArticleBody(feedTools, post, post.blocks, { ...context, feed: true }),
+                url,
+            ),
+            enclosure: await resolveFeedEnclosure(post),
+        });
+    }
+
+    return feedEntries;
+}
+
+function latestFeedEntryDate(feedEntries: FeedEntry[]): Date | null {
+    let latestDate: Date | null = null;
+
+    for (const entry of feedEntries) {
+        if (!latestDate || entry.updatedAt.getTime() > latestDate.getTime()) {
+            latestDate = entry.updatedAt;
+        }
+    }
+
+    return latestDate;
+}
+
+function renderRssFeed(feedEntries: FeedEntry[]): string {
+    const homeUrl = toAbsoluteSiteUrl(outputPathToPublicPath(HOME_PAGE));
+    const feedUrl = toAbsoluteSiteUrl(outputPathToPublicPath(RSS_FEED_PATH));
+    const lastBuildDate = latestFeedEntryDate(feedEntries);
+    const lines = [
+        `<?xml version="1.0" encoding="utf-8"?>`,
+        `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">`,
+        `    <channel>`,
+        `        <title>${escapeHtml(SITE_TITLE)}</title>`,
+        `        <link>${escapeHtml(homeUrl)}</link>`,
+        `        <description>${escapeHtml(SITE_DESCRIPTION)}</description>`,
+        `        <language>en</language>`,
+        `        <atom:link href="${escapeHtml(feedUrl)}" rel="self" type="application/rss+xml" />`,
+    ];
+
+    if (lastBuildDate) {
+        lines.push(`        <lastBuildDate>${lastBuildDate.toUTCString()}</lastBuildDate>`);
+    }
+
+    for (const entry of feedEntries) {
+        lines.push(
+            `        <item>`,
+            `            <title>${escapeHtml(entry.post.title)}</title>`,
+            `            <link>${escapeHtml(entry.url)}</link>`,
+            `            <guid isPermaLink="true">${escapeHtml(entry.url)}</guid>`,
+            `            <pubDate>${entry.publishedAt.toUTCString()}</pubDate>`,
+            `            <description>${escapeHtml(renderParagraphInlineMarkup(entry.post.summary))}</description>`,
+            `            <content:encoded>${escapeHtml(entry.contentHtml)}</content:encoded>`,
+        );
+
+        for (const tag of entry.post.tags ?? []) {
+            lines.push(`            <category>${escapeHtml(tag)}</category>`);
+        }
+
+        if (entry.enclosure) {
+            lines.push(
+                `            <enclosure url="${escapeHtml(entry.enclosure.url)}" length="${entry.enclosure.length}" type="${entry.enclosure.mimeType}" />`,
+            );
+        }
+
+        lines.push(`        </item>`);
+    }
+
+    lines.push(`    </channel>`, `</rss>`);
+    return `${lines.join("\n")}\n`;
+}
+
+function renderAtomFeed(feedEntries: FeedEntry[]): string {
+    const homeUrl = toAbsoluteSiteUrl(outputPathToPublicPath(HOME_PAGE));
+    const feedUrl = toAbsoluteSiteUrl(outputPathToPublicPath(ATOM_FEED_PATH));
+    const updatedAt = latestFeedEntryDate(feedEntries) ?? new Date();
+    const lines = [
+        `<?xml version="1.0" encoding="utf-8"?>`,
+        `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">`,
+        `    <id>${escapeHtml(homeUrl)}</id>`,
+        `    <title>${escapeHtml(SITE_TITLE)}</title>`,
+        `    <subtitle>${escapeHtml(SITE_DESCRIPTION)}</subtitle>`,
+        `    <link href="${escapeHtml(homeUrl)}" rel="alternate" type="text/html" />`,
+        `    <link href="${escapeHtml(feedUrl)}" rel="self" type="application/atom+xml" />`,
+        `    <updated>${updatedAt.toISOString()}</updated>`,
+        `    <author>`,
+        `        <name>${escapeHtml(SITE_AUTHOR_NAME)}</name>`,
+        `        <uri>${escapeHtml(homeUrl)}</uri>`,
+        `    </author>`,
+    ];
+
+    for (const entry of feedEntries) {
+        lines.push(
+            `    <entry>`,
+            `        <id>${escapeHtml(entry.url)}</id>`,
+            `        <title>${escapeHtml(entry.post.title)}</title>`,
+            `        <link href="${escapeHtml(entry.url)}" rel="alternate" type="text/html" />`,
+            `        <published>${entry.publishedAt.toISOString()}</published>`,
+            `        <updated>${entry.updatedAt.toISOString()}</updated>`,
+            `        <summary type="html">${escapeHtml(renderParagraphInlineMarkup(entry.post.summary))}</summary>`,
+            `        <content type="html" xml:base="${escapeHtml(entry.url)}">${escapeHtml(entry.contentHtml)}</content>`,
+        );
+
+        for (const tag of entry.post.tags ?? []) {
+            lines.push(`        <category term="${escapeHtml(tag)}" />`);
+        }
+
+        if (entry.enclosure) {
+            lines.push(
+                `        <link href="${escapeHtml(entry.enclosure.url)}" rel="enclosure" type="${entry.enclosure.mimeType}" length="${entry.enclosure.length}" />`,
+            );
+        }
+
+        lines.push(`    </entry>`);
+    }
+
+    lines.push(`</feed>`);
+    return `${lines.join("\n")}\n`;
+}
+
+function renderJsonFeed(feedEntries: FeedEntry[]): string {
+    const homeUrl = toAbsoluteSiteUrl(outputPathToPublicPath(HOME_PAGE));
+    const feedUrl = toAbsoluteSiteUrl(outputPathToPublicPath(JSON_FEED_PATH));
+    const jsonFeed = {
+        version: "https://jsonfeed.org/version/1.1",
+        title: SITE_TITLE,
+        home_page_url: homeUrl,
+        feed_url: feedUrl,
+        description: SITE_DESCRIPTION,
+        language: "en",
+        authors: [{ name: SITE_AUTHOR_NAME, url: homeUrl }],
+        items: feedEntries.map((entry) => ({
+            id: entry.url,
+            url: entry.url,
+            title: entry.post.title,
+            summary: inlineMarkupToPlainText(entry.post.summary),
+            content_html: entry.contentHtml,
+            date_published: entry.publishedAt.toISOString(),
+            ...(entry.post.updatedAt ? { date_modified: entry.updatedAt.toISOString() } : {}),
+            ...(entry.post.tags?.length ? { tags: entry.post.tags } : {}),
+            ...(entry.enclosure
+                ? {
+                      image: entry.enclosure.url,
+                      attachments: [
+                          {
+                              url: entry.enclosure.url,
+                              mime_type: entry.enclosure.mimeType,
+                              ...(entry.enclosure.length > 0
+                                  ? { size_in_bytes: entry.enclosure.length }
+                                  : {}),
+                          },
+                      ],
+                  }
+                : {}),
+        })),
+    };
+
+    return `${JSON.stringify(jsonFeed, null, 4)}\n`;
+}
+
+function latestBlogPostDate(postEntries: BlogPost[]): string | undefined {
+    return postEntries
+        .map(blogPostUpdatedAt)
+        .sort()
+        .at(-1);
+}
+
+/**
+ * Lists every generated page by canonical URL. `lastModified` maps output paths to
+ * YYYY-MM-DD dates; pages without one (nothing published yet) omit `<lastmod>`.
+ */
+function renderSitemap(outputPaths: string[], lastModified: Map<string, string>): string {
+    const lines = [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ];
+
+    for (const outputPath of outputPaths) {
+        const pageLastModified = lastModified.get(outputPath);
+        lines.push(
+            `    <url>`,
+            `        <loc>${escapeHtml(toAbsoluteSiteUrl(outputPathToPublicPath(outputPath)))}</loc>`,
+            ...(pageLastModified ? [`        <lastmod>${pageLastModified}</lastmod>`] : []),
+            `    </url>`,
+        );
+    }
+
+    lines.push(`</urlset>`);
+    return `${lines.join("\n")}\n`;
+}
+
+function renderRobotsTxt(): string {
+    // Draft builds go to preview deploys, which should never be indexed.
+    if (INCLUDE_UNPUBLISHED_POSTS) {
+        return "User-agent: *\nDisallow: /\n";
+    }
+
+    return `User-agent: *\nAllow: /\n\nSitemap: ${toAbsoluteSiteUrl(outputPathToPublicPath(SITEMAP_PATH))}\n`;
+}
+
+function assertNonEmpty(
+    value: string,
+    fieldName: string,
+    entityType: string,
+    slug: string,
+): void {
+    if (value.trim() === "") {
+        throw new Error(
+            `${entityType} "${slug}" is missing a non-empty "${fieldName}" value.`,
+        );
+    }
+}
+
+function validateLocalImagePath(
+    imagePath: string,
+    entityType: string,
+    slug: string,
+    fieldName: string,
+): void {
+    if (/^https?:\/\//.test(imagePath)) {
+        return;
+    }
+
+    const normalizedPath = normalizeRootRelative(imagePath);
+    if (normalizedPath.trim() === "") {
+        throw new Error(
+            `${entityType} "${slug}" has an empty "${fieldName}" path.`,
+        );
+    }
+}
+
+function validateParagraphLink(
+    href: string,
+    entityType: string,
+    slug: string,
+    fieldName: string,
+): void {
+    const trimmedHref = href.trim();
+    if (trimmedHref === "") {
+        throw new Error(
+            `${entityType} "${slug}" has an empty markdown link in "${fieldName}".`,
+        );
+    }
+
+    if (
+        trimmedHref.startsWith("/") ||
+        trimmedHref.startsWith("#") ||
+        trimmedHref.startsWith("mailto:") ||
+        trimmedHref.startsWith("tel:")
+    ) {
+        return;
+    }
+
+    try {
+        const parsedUrl = new URL(trimmedHref);
+        if (parsedUrl.protocol !== "https:" && parsedUrl.protocol !== "http:") {
+            throw new Error();
+        }
+    } catch {
+        throw new Error(
+            `${entityType} "${slug}" has an invalid markdown link in "${fieldName}": ${trimmedHref}`,
+        );
+    }
+}
 
 async function assertLocalImageExists(
     imagePath: string,
@@ -1597,8 +4077,251 @@ async function assertLocalImageExists(
     }
 }
 
-async function validateBlogPosts(postEntries: BlogPost[]): Promise<void> {
+function validateBlogListItems(
+    items: BlogListItem[],
+    fieldPath: string,
+    slug: string,
+): void {
+    if (!Array.isArray(items) || items.length === 0) {
+        throw new Error(`Blog post "${slug}" must include at least one item in "${fieldPath}".`);
+    }
+
+    for (const [itemIndex, item] of items.entries()) {
+        const itemPath = `${fieldPath}[${itemIndex}]`;
+        const text = typeof item === "string" ? item : item.text;
+        const textPath = typeof item === "string" ? itemPath : `${itemPath}.text`;
+        assertNonEmpty(text, textPath, "Blog post", slug);
+
+        if (typeof item === "string") {
+            continue;
+        }
+
+        if (item.style !== undefined && item.style !== "ordered" && item.style !== "unordered") {
+            throw new Error(
+                `Blog post "${slug}" has invalid list style in "${itemPath}.style". Use "ordered" or "unordered".`,
+            );
+        }
+
+        validateBlogListItems(item.items, `${itemPath}.items`, slug);
+    }
+}
+
+function validateBlogPostLinkTarget(
+    node: Extract<InlineNode, { type: "postLink" }>,
+    slug: string,
+    fieldPath: string,
+    postEntries: BlogPost[],
+    allPostEntries: BlogPost[],
+): void {
+    if (node.fragment === "") {
+        throw new Error(
+            `Blog post "${slug}" has an empty "#" fragment in cross-post link "post:${node.slug}#" in "${fieldPath}".`,
+        );
+    }
+
+    const targetPost = postEntries.find((post) => post.slug === node.slug);
+    if (targetPost) {
+        if (node.fragment === undefined) {
+            return;
+        }
+
+        const headingIds = [...createBlogHeadingIds(targetPost).values()];
+        if (!headingIds.includes(node.fragment)) {
+            const available = headingIds.length > 0 ? headingIds.join(", ") : "none";
+            throw new Error(
+                `Blog post "${slug}" links to unknown heading "#${node.fragment}" in post "${node.slug}" in "${fieldPath}". Available heading ids: ${available}.`,
+            );
+        }
+
+        return;
+    }
+
+    if (allPostEntries.some((post) => post.slug === node.slug)) {
+        throw new Error(
+            `Blog post "${slug}" links to unpublished post "${node.slug}" in "${fieldPath}". Publish it or remove the link.`,
+        );
+    }
+
+    throw new Error(
+        `Blog post "${slug}" links to unknown post "${node.slug}" in "${fieldPath}". Use an existing post slug.`,
+    );
+}
+
+function validateBlogInlineText(
+    text: string,
+    fieldPath: string,
+    slug: string,
+    postEntries: BlogPost[],
+    allPostEntries: BlogPost[],
+): InlineNode[] {
+    const nodes = parseInlineMarkupOrThrow(text, `Blog post "${slug}"`, fieldPath);
+
+    walkInlineNodes(nodes, (node) => {
+        if (node.type === "link") {
+            validateParagraphLink(node.href, "Blog post", slug, fieldPath);
+        }
+
+        if (node.type === "postLink") {
+            validateBlogPostLinkTarget(node, slug, fieldPath, postEntries, allPostEntries);
+        }
+    });
+
+    return nodes;
+}
+
+function hasInlineNode(nodes: InlineNode[], type: InlineNode["type"]): boolean {
+    let found = false;
+    walkInlineNodes(nodes, (node) => {
+        found ||= node.type === type;
+    });
+    return found;
+}
+
+/**
+ * Parses every inline-markup string on the post (summary, block text, footnotes) so
+ * malformed markup fails with a position, then checks links and footnote references.
+ */
+function validateBlogPostInlineMarkup(
+    post: BlogPost,
+    postEntries: BlogPost[],
+    allPostEntries: BlogPost[],
+): void {
+    const summaryNodes = parseInlineMarkupOrThrow(post.summary, `Blog post "${post.slug}"`, "summary");
+    if (hasInlineNode(summaryNodes, "footnoteReference")) {
+        throw new Error(
+            `Blog post "${post.slug}" has a footnote reference in "summary". Footnotes are only supported in block text.`,
+        );
+    }
+
+    if (hasInlineNode(summaryNodes, "postLink")) {
+        throw new Error(
+            `Blog post "${post.slug}" has a cross-post link in "summary". Cross-post links are only supported in block text and footnotes.`,
+        );
+    }
+
+    validateBlogInlineText(post.summary, "summary", post.slug, postEntries, allPostEntries);
+
+    const footnotes = post.footnotes ?? {};
+    const referencedIds = new Set<string>();
+
+    for (const { text, fieldPath } of collectBlogInlineTexts(post.blocks)) {
+        const nodes = validateBlogInlineText(text, fieldPath, post.slug, postEntries, allPostEntries);
+        walkInlineNodes(nodes, (node) => {
+            if (node.type !== "footnoteReference") {
+                return;
+            }
+
+            if (!Object.hasOwn(footnotes, node.id)) {
+                throw new Error(
+                    `Blog post "${post.slug}" references undefined footnote "[^${node.id}]" in "${fieldPath}". Add it to "footnotes".`,
+                );
+            }
+
+            referencedIds.add(node.id);
+        });
+    }
+
+    for (const [id, text] of Object.entries(footnotes)) {
+        const fieldPath = `footnotes.${id}`;
+
+        if (!BLOG_FOOTNOTE_ID_PATTERN.test(id)) {
+            throw new Error(
+                `Blog post "${post.slug}" has invalid footnote id "${id}". Use letters, numbers, hyphens, and underscores only.`,
+            );
+        }
+
+        if (!referencedIds.has(id)) {
+            throw new Error(
+                `Blog post "${post.slug}" defines footnote "${id}" but never references it. Add "[^${id}]" to the text or remove the footnote.`,
+            );
+        }
+
+        assertNonEmpty(text, fieldPath, "Blog post", post.slug);
+
+        const nodes = validateBlogInlineText(text, fieldPath, post.slug, postEntries, allPostEntries);
+        if (hasInlineNode(nodes, "footnoteReference")) {
+            throw new Error(
+                `Blog post "${post.slug}" has a footnote reference inside "${fieldPath}". Footnotes cannot be nested.`,
+            );
+        }
+    }
+}
+
+function validateBlogSeriesMembership(post: BlogPost): void {
+    const series = post.series;
+    if (typeof series !== "object" || series === null) {
+        throw new Error(
+            `Blog post "${post.slug}" has invalid "series". Use { name: "Series name", part: 1 }.`,
+        );
+    }
+
+    if (typeof series.name !== "string") {
+        throw new Error(`Blog post "${post.slug}" has invalid "series.name". Use a string.`);
+    }
+
+    assertNonEmpty(series.name, "series.name", "Blog post", post.slug);
+
+    if (slugifyText(series.name) === "") {
+        throw new Error(
+            `Blog post "${post.slug}" has "series.name" "${series.name}" that doesn't produce a URL slug. Include letters or numbers.`,
+        );
+    }
+
+    if (!Number.isInteger(series.part) || series.part < 1) {
+        throw new Error(
+            `Blog post "${post.slug}" has invalid "series.part" value "${series.part}". Use a positive integer.`,
+        );
+    }
+}
+
+/**
+ * Checks every series in the build: one spelling per series slug, no two posts
+ * claiming the same part, and parts numbered 1..N with no gaps.
+ */
+function validateBlogSeries(postEntries: BlogPost[]): void {
+    for (const series of collectBlogSeries(postEntries)) {
+        const seenParts = new Map<number, string>();
+
+        for (const post of series.posts) {
+            const membership = post.series;
+            if (!membership) {
+                continue;
+            }
+
+            if (membership.name.trim() !== series.name) {
+                throw new Error(
+                    `Blog post "${post.slug}" has series "${membership.name}" that conflicts with series "${series.name}" in blog post "${series.posts[0].slug}". Both map to "blog/series/${series.slug}/"; use one spelling.`,
+                );
+            }
+
+            const duplicateSlug = seenParts.get(membership.part);
+            if (duplicateSlug) {
+                throw new Error(
+                    `Blog post "${post.slug}" uses part ${membership.part} of series "${series.name}", which blog post "${duplicateSlug}" already uses.`,
+                );
+            }
+
+            seenParts.set(membership.part, post.slug);
+        }
+
+        for (let part = 1; part <= series.posts.length; part += 1) {
+            if (!seenParts.has(part)) {
+                const parts = Array.from(seenParts.keys()).sort((a, b) => a - b);
+                throw new Error(
+                    `Series "${series.name}" is missing part ${part} (has parts ${parts.join(", ")}). Number parts 1..${series.posts.length} without gaps; unpublished parts count as missing.`,
+                );
+            }
+        }
+    }
+}
+
+async function validateBlogPosts(
+    postEntries: BlogPost[],
+    allPostEntries: BlogPost[],
+    codeSnippets: BlogCodeSnippetMap,
+): Promise<void> {
     const seenSlugs = new Set<string>();
+    const seenTagLabels = new Map<string, { label: string; postSlug: string }>();
 
     for (const post of postEntries) {
         if (typeof post.published !== "boolean") {
@@ -1618,6 +4341,12 @@ async function validateBlogPosts(postEntries: BlogPost[]): Promise<void> {
             );
         }
 
+        if (RESERVED_BLOG_SLUGS.includes(post.slug)) {
+            throw new Error(
+                `Blog slug "${post.slug}" is reserved for generated pages under "blog/${post.slug}/". Reserved slugs: ${RESERVED_BLOG_SLUGS.join(", ")}.`,
+            );
+        }
+
         if (seenSlugs.has(post.slug)) {
             throw new Error(`Duplicate blog slug "${post.slug}".`);
         }
@@ -1630,12 +4359,60 @@ async function validateBlogPosts(postEntries: BlogPost[]): Promise<void> {
             );
         }
 
+        if (post.updatedAt !== undefined) {
+            const updatedAt =
+                typeof post.updatedAt === "string" ? parsePublishedAt(post.updatedAt) : null;
+            if (!updatedAt) {
+                throw new Error(
+                    `Blog post "${post.slug}" has invalid "updatedAt" value "${post.updatedAt}". Use YYYY-MM-DD.`,
+                );
+            }
+
+            if (updatedAt.getTime() < (parsePublishedAt(post.publishedAt)?.getTime() ?? 0)) {
+                throw new Error(
+                    `Blog post "${post.slug}" has "updatedAt" ${post.updatedAt} before "publishedAt" ${post.publishedAt}.`,
+                );
+            }
+        }
+
         if (post.tags) {
+            const postTagSlugs = new Set<string>();
+
             for (const [tagIndex, tag] of post.tags.entries()) {
                 assertNonEmpty(tag, `tags[${tagIndex}]`, "Blog post", post.slug);
+
+                const tagSlug = normalizeBlogTagSlug(tag);
+                if (!SLUG_PATTERN.test(tagSlug)) {
+                    throw new Error(
+                        `Blog post "${post.slug}" has tag "${tag}" in "tags[${tagIndex}]" that does not produce a valid archive slug. Use letters or numbers.`,
+                    );
+                }
+
+                if (postTagSlugs.has(tagSlug)) {
+                    throw new Error(
+                        `Blog post "${post.slug}" has duplicate tag "${tag}" in "tags[${tagIndex}]".`,
+                    );
+                }
+
+                postTagSlugs.add(tagSlug);
+
+                const seenTag = seenTagLabels.get(tagSlug);
+                if (seenTag && seenTag.label !== tag.trim()) {
+                    throw new Error(
+                        `Blog post "${post.slug}" has tag "${tag}" in "tags[${tagIndex}]" that conflicts with tag "${seenTag.label}" in blog post "${seenTag.postSlug}". Both map to "blog/tags/${tagSlug}/"; use one spelling.`,
+                    );
+                }
+
+                if (!seenTag) {
+                    seenTagLabels.set(tagSlug, { label: tag.trim(), postSlug: post.slug });
+                }
             }
         }
 
+        if (post.series !== undefined) {
+            validateBlogSeriesMembership(post);
+        }
+
         if (post.heroImage) {
             validateLocalImagePath(post.heroImage, "Blog post", post.slug, "heroImage");
             if (!/^https?:\/\//.test(post.heroImage)) {
@@ -1670,28 +4447,128 @@ async function validateBlogPosts(postEntries: BlogPost[]): Promise<void> {
             throw new Error(`Blog post "${post.slug}" must include at least one block.`);
         }
 
-        const hasImageBlock = post.blocks.some((block) => block.type === "image");
-        if (!post.heroImage && !hasImageBlock) {
-            throw new Error(
-                `Blog post "${post.slug}" must include "heroImage" or at least one image block so share metadata has an image.`,
-            );
-        }
+        if (post.pinned !== undefined && typeof post.pinned !== "boolean") {
+            throw new Error(`Blog post "${post.slug}" has invalid "pinned" value. Use true or false.`);
+        }
+
+        if (post.toc !== undefined && typeof post.toc !== "boolean") {
+            throw new Error(`Blog post "${post.slug}" has invalid "toc" value. Use true or false.`);
+        }
+
+        if (post.toc && !post.blocks.some((block) => block.type === "heading")) {
+            throw new Error(
+                `Blog post "${post.slug}" sets "toc: true" but has no heading blocks to list.`,
+            );
+        }
+
+        // Block headings sit under the page's post title, so the first one must be an h2.
+        let previousHeadingLevel = 1;
+
+        for (const [blockIndex, block] of post.blocks.entries()) {
+            const blockPath = `blocks[${blockIndex}]`;
+
+            if (block.type === "paragraph") {
+                assertNonEmpty(block.text, `${blockPath}.text`, "Blog post", post.slug);
+
+                if (isListLikeBlogParagraph(block.text)) {
+                    console.warn(
+                        `Warning: Blog post "${post.slug}" has a list-like paragraph in "${blockPath}.text". Use a "list" block instead of numbered or bulleted paragraphs.`,
+                    );
+                }
+                continue;
+            }
+
+            if (block.type === "table") {
+                if (!Array.isArray(block.columns) || block.columns.length === 0) {
+                    throw new Error(
+                        `Blog post "${post.slug}" must include at least one column in "${blockPath}.columns".`,
+                    );
+                }
+
+                for (const [columnIndex, column] of block.columns.entries()) {
+                    const columnPath = `${blockPath}.columns[${columnIndex}]`;
+                    assertNonEmpty(column.label, `${columnPath}.label`, "Blog post", post.slug);
+
+                    if (column.align !== undefined && !BLOG_TABLE_ALIGNMENTS.includes(column.align)) {
+                        throw new Error(
+                            `Blog post "${post.slug}" has invalid alignment in "${columnPath}.align": ${column.align}. Use one of: ${BLOG_TABLE_ALIGNMENTS.join(", ")}.`,
+                        );
+                    }
+                }
+
+                if (!Array.isArray(block.rows) || block.rows.length === 0) {
+                    throw new Error(
+                        `Blog post "${post.slug}" must include at least one row in "${blockPath}.rows".`,
+                    );
+                }
+
+                for (const [rowIndex, row] of block.rows.entries()) {
+                    const rowPath = `${blockPath}.rows[${rowIndex}]`;
+                    if (row.length !== block.columns.length) {
+                        throw new Error(
+                            `Blog post "${post.slug}" has ${row.length} cell(s) in "${rowPath}" but ${block.columns.length} column(s). Every row needs one cell per column.`,
+                        );
+                    }
+
+                    for (const [cellIndex, cell] of row.entries()) {
+                        const cellPath = `${rowPath}[${cellIndex}]`;
+                        if (typeof cell === "number" && !Number.isFinite(cell)) {
+                            throw new Error(
+                                `Blog post "${post.slug}" has a non-finite number in "${cellPath}".`,
+                            );
+                        }
+                    }
+                }
+
+                if (block.caption !== undefined) {
+                    assertNonEmpty(block.caption, `${blockPath}.caption`, "Blog post", post.slug);
+                }
+
+                continue;
+            }
+
+            if (block.type === "callout") {
+                if (!Object.hasOwn(BLOG_CALLOUT_LABELS, block.variant)) {
+                    throw new Error(
+                        `Blog post "${post.slug}" has invalid callout variant in "${blockPath}.variant": ${block.variant}. Use one of: ${Object.keys(BLOG_CALLOUT_LABELS).join(", ")}.`,
+                    );
+                }
+
+                if (block.title !== undefined) {
+                    assertNonEmpty(block.title, `${blockPath}.title`, "Blog post", post.slug);
+                }
+
+                if (!Array.isArray(block.paragraphs) || block.paragraphs.length === 0) {
+                    throw new Error(
+                        `Blog post "${post.slug}" must include at least one paragraph in "${blockPath}.paragraphs".`,
+                    );
+                }
+
+                for (const [paragraphIndex, paragraph] of block.paragraphs.entries()) {
+                    const paragraphPath = `${blockPath}.paragraphs[${paragraphIndex}]`;
+                    assertNonEmpty(paragraph, paragraphPath, "Blog post", post.slug);
+                }
 
-        for (const [blockIndex, block] of post.blocks.entries()) {
-            const blockPath = `blocks[${blockIndex}]`;
+                continue;
+            }
 
-            if (block.type === "paragraph") {
-                assertNonEmpty(block.text, `${blockPath}.text`, "Blog post", post.slug);
+            if (block.type === "list") {
+                if (block.style !== "ordered" && block.style !== "unordered") {
+                    throw new Error(
+                        `Blog post "${post.slug}" has invalid list style in "${blockPath}.style". Use "ordered" or "unordered".`,
+                    );
+                }
 
-                for (const match of block.text.matchAll(MARKDOWN_LINK_PATTERN)) {
-                    const href = match[2];
-                    validateParagraphLink(
-                        href,
-                        "Blog post",
-                        post.slug,
-                        `${blockPath}.text`,
+                if (
+                    block.start !== undefined &&
+                    (block.style !== "ordered" || !Number.isInteger(block.start) || block.start < 0)
+                ) {
+                    throw new Error(
+                        `Blog post "${post.slug}" has invalid "${blockPath}.start". Use a non-negative integer on ordered lists only.`,
                     );
                 }
+
+                validateBlogListItems(block.items, `${blockPath}.items`, post.slug);
                 continue;
             }
 
@@ -1703,24 +4580,100 @@ async function validateBlogPosts(postEntries: BlogPost[]): Promise<void> {
                         `Blog post "${post.slug}" has invalid heading level in "${blockPath}.level".`,
                     );
                 }
+
+                if (block.level > previousHeadingLevel + 1) {
+                    throw new Error(
+                        `Blog post "${post.slug}" skips a heading level in "${blockPath}": h${block.level} follows h${previousHeadingLevel}. Use h${previousHeadingLevel + 1} or add the missing level.`,
+                    );
+                }
+
+                previousHeadingLevel = block.level;
                 continue;
             }
 
             if (block.type === "code") {
+                const source = blogCodeSource(block, codeSnippets);
                 assertNonEmpty(
-                    block.language,
+                    source.language,
                     `${blockPath}.language`,
                     "Blog post",
                     post.slug,
                 );
-                assertNonEmpty(block.code, `${blockPath}.code`, "Blog post", post.slug);
+                assertNonEmpty(source.code, `${blockPath}.code`, "Blog post", post.slug);
 
-                if (!normalizeBlogCodeLanguage(block.language)) {
+                if (!normalizeBlogCodeLanguage(source.language)) {
                     throw new Error(
-                        `Blog post "${post.slug}" has unsupported code language in "${blockPath}.language": ${block.language}. Supported languages: ${formatSupportedBlogCodeLanguages()}.`,
+                        `Blog post "${post.slug}" has unsupported code language in "${blockPath}.language": ${source.language}. Supported languages: ${formatSupportedBlogCodeLanguages()}.`,
                     );
                 }
 
+                if (block.filename !== undefined) {
+                    assertNonEmpty(block.filename, `${blockPath}.filename`, "Blog post", post.slug);
+                }
+
+                // Line-based options count the lines as shown, after twoslash drops "// ^?" queries.
+                let displayedCode = source.code;
+                if (block.twoslash) {
+                    const language = normalizeBlogCodeLanguage(source.language);
+                    if (language !== "ts" && language !== "tsx") {
+                        throw new Error(
+                            `Blog post "${post.slug}" sets "${blockPath}.twoslash" on ${source.language} code. Twoslash supports ts and tsx only.`,
+                        );
+                    }
+
+                    if (block.collapsedAfterLines !== undefined) {
+                        // Collapsing clips the code box, which would cut off the hover popups.
+                        throw new Error(
+                            `Blog post "${post.slug}" sets both "${blockPath}.twoslash" and "${blockPath}.collapsedAfterLines". Twoslash popups can't show inside a collapsed block; drop one of them.`,
+                        );
+                    }
+
+                    const twoslash = runTwoslash(source.code, language);
+                    if (!twoslash.ok) {
+                        const [firstError] = twoslash.errors;
+                        const moreErrors =
+                            twoslash.errors.length > 1 ? ` (+${twoslash.errors.length - 1} more)` : "";
+                        // Snippet errors point at the file, since that's what the author edits.
+                        const location = source.fileLocation
+                            ? `"${blockPath}.codeFile" (${BLOG_SNIPPETS_DIR}/${block.codeFile}) at line ${source.fileLocation.lineNumbers[firstError.line - 1]}, column ${firstError.column + source.fileLocation.indent}`
+                            : `"${blockPath}.code" at line ${firstError.line}, column ${firstError.column}`;
+                        throw new Error(
+                            `Blog post "${post.slug}" has a TypeScript error in ${location}: ${firstError.message}${moreErrors}`,
+                        );
+                    }
+
+                    displayedCode = twoslash.code;
+                }
+
+                if (block.highlightLines !== undefined) {
+                    const lineCount = displayedCode.split("\n").length;
+                    const highlightLines = parseBlogCodeLineRanges(block.highlightLines, lineCount);
+                    if (!highlightLines.ok && highlightLines.outOfRangeLine === null) {
+                        throw new Error(
+                            `Blog post "${post.slug}" has invalid "${blockPath}.highlightLines": "${block.highlightLines}". Use comma-separated line numbers or ascending ranges, like "3-5,9".`,
+                        );
+                    }
+
+                    if (!highlightLines.ok) {
+                        throw new Error(
+                            `Blog post "${post.slug}" highlights line ${highlightLines.outOfRangeLine} in "${blockPath}.highlightLines", but the code has ${lineCount} line(s).`,
+                        );
+                    }
+                }
+
+                if (block.collapsedAfterLines !== undefined) {
+                    const lineCount = displayedCode.split("\n").length;
+                    if (
+                        !Number.isInteger(block.collapsedAfterLines) ||
+                        block.collapsedAfterLines < 1 ||
+                        block.collapsedAfterLines >= lineCount
+                    ) {
+                        throw new Error(
+                            `Blog post "${post.slug}" has invalid "${blockPath}.collapsedAfterLines": ${block.collapsedAfterLines}. Use a whole number from 1 to ${lineCount - 1} (the code has ${lineCount} line(s)).`,
+                        );
+                    }
+                }
+
                 if (block.caption !== undefined) {
                     assertNonEmpty(
                         block.caption,
@@ -1867,7 +4820,483 @@ async function validateBlogPosts(postEntries: BlogPost[]): Promise<void> {
                 `${blockPath}.darkSrc`,
             );
         }
+
+        validateBlogPostInlineMarkup(post, postEntries, allPostEntries);
+    }
+
+    validateBlogSeries(postEntries);
+}
+
+const RESPONSIVE_IMAGE_ENCODING = {
+    avif: { quality: 55, effort: 2 },
+    webp: { quality: 78 },
+} as const;
+
+async function fileExists(outputPath: string): Promise<boolean> {
+    try {
+        return (await stat(path.join(ROOT_DIR, outputPath))).isFile();
+    } catch {
+        return false;
+    }
+}
+
+function collectBlogImagePaths(postEntries: BlogPost[]): string[] {
+    const imagePaths = new Set<string>();
+    const addImagePath = (imagePath: string | undefined) => {
+        if (!imagePath || /^https?:\/\//.test(imagePath)) {
+            return;
+        }
+
+        if (RESPONSIVE_IMAGE_DIMENSION_PATTERN.test(imagePath)) {
+            imagePaths.add(normalizeRootRelative(imagePath));
+        }
+    };
+
+    for (const post of postEntries) {
+        addImagePath(post.heroImage);
+        addImagePath(post.heroImageDark);
+
+        for (const block of post.blocks) {
+            if (block.type === "image") {
+                addImagePath(block.src);
+                addImagePath(block.darkSrc);
+            }
+        }
+    }
+
+    return [...imagePaths];
+}
+
+function responsiveImageWidths(intrinsicWidth: number): number[] {
+    const largestWidth = RESPONSIVE_IMAGE_WIDTHS[RESPONSIVE_IMAGE_WIDTHS.length - 1];
+    // Capped at the largest configured width, which is pushed last so it isn't listed twice.
+    const widestVariant = Math.min(intrinsicWidth, largestWidth);
+    const widths: number[] = RESPONSIVE_IMAGE_WIDTHS.filter((width) => width < widestVariant);
+    widths.push(widestVariant);
+    return widths;
+}
+
+async function encodeResponsiveImageVariant(
+    sourceImage: Buffer,
+    format: ResponsiveImageFormat,
+    width: number,
+): Promise<Buffer> {
+    const resizedImage = sharp(sourceImage)
+        .rotate()
+        .resize({ width, withoutEnlargement: true });
+
+    return format === "avif"
+        ? resizedImage.avif(RESPONSIVE_IMAGE_ENCODING.avif).toBuffer()
+        : resizedImage.webp(RESPONSIVE_IMAGE_ENCODING.webp).toBuffer();
+}
+
+async function pruneResponsiveImageVariants(keptOutputPaths: Set<string>): Promise<void> {
+    let existingFileNames: string[];
+    try {
+        existingFileNames = await readdir(path.join(ROOT_DIR, RESPONSIVE_IMAGE_DIR));
+    } catch {
+        return;
+    }
+
+    for (const fileName of existingFileNames) {
+        const outputPath = `${RESPONSIVE_IMAGE_DIR}/${fileName}`;
+        if (!keptOutputPaths.has(outputPath)) {
+            await rm(path.join(ROOT_DIR, outputPath), { force: true });
+        }
+    }
+}
+
+/**
+ * Reads every `codeFile` block's snippet from content/snippets/, cut down to its `lines`
+ * or `region` and dedented. Fails on a missing file, range, or region.
+ */
+async function loadBlogCodeSnippets(postEntries: BlogPost[]): Promise<BlogCodeSnippetMap> {
+    const codeSnippets: BlogCodeSnippetMap = new Map();
+    const snippetsDir = path.join(ROOT_DIR, BLOG_SNIPPETS_DIR);
+
+    for (const post of postEntries) {
+        for (const [blockIndex, block] of post.blocks.entries()) {
+            if (block.type !== "code" || block.codeFile === undefined) {
+                continue;
+            }
+
+            const blockPath = `blocks[${blockIndex}]`;
+            assertNonEmpty(block.codeFile, `${blockPath}.codeFile`, "Blog post", post.slug);
+
+            const filePath = path.resolve(snippetsDir, block.codeFile);
+            if (!filePath.startsWith(`${snippetsDir}${path.sep}`)) {
+                throw new Error(
+                    `Blog post "${post.slug}" has "${blockPath}.codeFile" outside ${BLOG_SNIPPETS_DIR}/: ${block.codeFile}`,
+                );
+            }
+
+            let source: string;
+            try {
+                source = await readFile(filePath, "utf8");
+            } catch {
+                throw new Error(
+                    `Blog post "${post.slug}" references a missing code file in "${blockPath}.codeFile": ${BLOG_SNIPPETS_DIR}/${block.codeFile}`,
+                );
+            }
+
+            if (block.lines !== undefined && block.region !== undefined) {
+                throw new Error(
+                    `Blog post "${post.slug}" sets both "${blockPath}.lines" and "${blockPath}.region". Use one.`,
+                );
+            }
+
+            const fileLines = source.replace(/\r\n/g, "\n").split("\n");
+            if (fileLines[fileLines.length - 1] === "") {
+                fileLines.pop();
+            }
+
+            let selection: BlogCodeFileSelection = { startIndex: 0, lines: fileLines };
+            if (block.lines !== undefined) {
+                const rangeSelection = selectBlogCodeLineRange(fileLines, block.lines);
+                if (!rangeSelection) {
+                    throw new Error(
+                        `Blog post "${post.slug}" has invalid "${blockPath}.lines": "${block.lines}". ${block.codeFile} has ${fileLines.length} line(s); use a line or ascending range within it, like "10-42".`,
+                    );
+                }
+
+                selection = rangeSelection;
+            } else if (block.region !== undefined) {
+                const regionSelection = selectBlogCodeRegion(fileLines, block.region);
+                if (!regionSelection) {
+                    throw new Error(
+                        `Blog post "${post.slug}" references a missing region in "${blockPath}.region": ${block.codeFile} has no "#region ${block.region}" ... "#endregion" pair.`,
+                    );
+                }
+
+                selection = regionSelection;
+            }
+
+            const language = block.language ?? inferBlogCodeFileLanguage(block.codeFile);
+            if (!language) {
+                throw new Error(
+                    `Blog post "${post.slug}" can't infer a code language from "${blockPath}.codeFile": ${block.codeFile}. Set "${blockPath}.language" to one of: ${formatSupportedBlogCodeLanguages()}.`,
+                );
+            }
+
+            codeSnippets.set(block, { language, ...dedentBlogCodeLines(selection) });
+        }
+    }
+
+    return codeSnippets;
+}
+
+async function buildResponsiveImages(postEntries: BlogPost[]): Promise<ResponsiveImageMap> {
+    const responsiveImages: ResponsiveImageMap = new Map();
+    const variantOutputPaths = new Set<string>();
+
+    for (const imagePath of collectBlogImagePaths(postEntries)) {
+        const sourceImage = await readFile(path.join(ROOT_DIR, imagePath));
+        const metadata = await sharp(sourceImage).metadata();
+        if (!metadata.width || !metadata.height) {
+            throw new Error(`Unable to read image dimensions for /${imagePath}.`);
+        }
+
+        // EXIF orientations 5-8 are rotated a quarter turn, so the rendered size is transposed.
+        const isTransposed = (metadata.orientation ?? 1) >= 5;
+        const width = isTransposed ? metadata.height : metadata.width;
+        const height = isTransposed ? metadata.width : metadata.height;
+        const variants: ResponsiveImageVariant[] = [];
+
+        if (RESPONSIVE_IMAGE_SOURCE_PATTERN.test(imagePath)) {
+            // Variant names hash the source bytes and encoder settings, so an existing
+            // file is always current and can be reused without re-encoding.
+            const variantHash = createHash("sha256")
+                .update(sourceImage)
+                .update(JSON.stringify(RESPONSIVE_IMAGE_ENCODING))
+                .digest("hex")
+                .slice(0, 16);
+
+            for (const format of RESPONSIVE_IMAGE_FORMATS) {
+                for (const variantWidth of responsiveImageWidths(width)) {
+                    const outputPath = `${RESPONSIVE_IMAGE_DIR}/${variantHash}-${variantWidth}.${format}`;
+                    variants.push({ format, width: variantWidth, outputPath });
+                    variantOutputPaths.add(outputPath);
+
+                    if (await fileExists(outputPath)) {
+                        continue;
+                    }
+
+                    await writeAsset(
+                        outputPath,
+                        await encodeResponsiveImageVariant(sourceImage, format, variantWidth),
+                    );
+                }
+            }
+        }
+
+        responsiveImages.set(imagePath, { width, height, variants });
+    }
+
+    await pruneResponsiveImageVariants(variantOutputPaths);
+    return responsiveImages;
+}
+
+function inlineMarkupToPlainText(text: string, linkablePosts?: Map<string, BlogPost>): string {
+    return inlineNodesToPlainText(
+        parseInlineMarkupOrThrow(text, "Text"),
+        (slug) => linkablePosts?.get(slug)?.title,
+    )
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+function wrapOgCardText(text: string, maxCharsPerLine: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let currentLine = "";
+
+    for (const word of text.split(/\s+/).filter((entry) => entry !== "")) {
+        const candidate = currentLine === "" ? word : `${currentLine} ${word}`;
+        if (candidate.length <= maxCharsPerLine) {
+            currentLine = candidate;
+            continue;
+        }
+
+        if (currentLine !== "") {
+            lines.push(currentLine);
+        }
+
+        currentLine =
+            word.length > maxCharsPerLine ? `${word.slice(0, maxCharsPerLine - 1)}…` : word;
+    }
+
+    if (currentLine !== "") {
+        lines.push(currentLine);
+    }
+
+    if (lines.length <= maxLines) {
+        return lines;
+    }
+
+    const visibleLines = lines.slice(0, maxLines);
+    const lastLine = visibleLines[maxLines - 1];
+    visibleLines[maxLines - 1] =
+        lastLine.length >= maxCharsPerLine ? `${lastLine.slice(0, maxCharsPerLine - 1)}…` : `${lastLine}…`;
+    return visibleLines;
+}
+
+function renderOgCardTextLines(
+    lines: string[],
+    x: number,
+    firstBaseline: number,
+    lineHeight: number,
+): string {
+    return lines
+        .map(
+            (line, index) =>
+                `<tspan x="${x}" y="${firstBaseline + index * lineHeight}">${escapeHtml(line)}</tspan>`,
+        )
+        .join("");
+}
+
+function renderBlogOgCardSvg(post: BlogPost): string {
+    const { width, height, paddingX } = OG_CARD_LAYOUT;
+    const titleLines = wrapOgCardText(post.title, 30, 3);
+    const summaryBaseline = 268 + (titleLines.length - 1) * 66 + 78;
+    const summaryLines = wrapOgCardText(
+        inlineMarkupToPlainText(post.summary),
+        62,
+        Math.max(1, Math.floor((530 - summaryBaseline) / 38) + 1),
+    );
+    const metaText = [
+        formatPublishedAt(post.publishedAt),
+        ...(post.tags ?? []).slice(0, 4).map((tag) => `#${tag}`),
+    ].join(" · ");
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+    <defs>
+        <linearGradient id="brand" x1="0" y1="0" x2="1" y2="0">
+            <stop offset="0" stop-color="rgb(0, 111, 255)" stop-opacity="0.9" />
+            <stop offset="1" stop-color="rgb(255, 0, 255)" stop-opacity="0.9" />
+        </linearGradient>
+    </defs>
+    <rect width="${width}" height="${height}" fill="rgb(252, 252, 252)" />
+    <rect x="0" y="${height - 14}" width="${width}" height="14" fill="url(#brand)" />
+    <text x="${paddingX}" y="128" font-family="Great Vibes" font-size="76" fill="rgb(0, 0, 0)">Eli Zibin</text>
+    <rect x="${paddingX}" y="146" width="262" height="5" fill="url(#brand)" />
+    <text font-family="Roboto Mono" font-size="54" fill="rgb(0, 0, 0)">${renderOgCardTextLines(titleLines, paddingX, 268, 66)}</text>
+    <text font-family="Roboto Mono" font-size="28" fill="rgb(0, 0, 0)" fill-opacity="0.72">${renderOgCardTextLines(summaryLines, paddingX, summaryBaseline, 38)}</text>
+    <text x="${paddingX}" y="${height - 56}" font-family="Roboto Mono" font-size="22" fill="rgb(0, 0, 0)" fill-opacity="0.62">${escapeHtml(metaText)}</text>
+</svg>
+`;
+}
+
+async function buildBlogOgCards(postEntries: BlogPost[]): Promise<void> {
+    if (postEntries.length === 0) {
+        return;
+    }
+
+    const cardSvgs = postEntries.map((post) => ({ post, svg: renderBlogOgCardSvg(post) }));
+    const cardText = cardSvgs.map(({ svg }) => svg).join("");
+    const fontDir = await mkdtemp(path.join(os.tmpdir(), "elizibin-og-fonts-"));
+
+    try {
+        // resvg only loads TrueType/OpenType files from disk, so the vendored WOFF2
+        // faces are converted (and subset to the card text) into a scratch directory.
+        const fontFiles: string[] = [];
+        for (const fontsourceId of ["great-vibes", "roboto-mono"]) {
+            for (const subset of SITE_FONT_SUBSETS) {
+                const sourceFont = await readFile(fontsourceFilePath(fontsourceId, subset));
+                const fontFile = path.join(fontDir, `${fontsourceId}-${subset}.ttf`);
+                await writeFile(
+                    fontFile,
+                    await subsetFont(sourceFont, cardText, { targetFormat: "truetype" }),
+                );
+                fontFiles.push(fontFile);
+            }
+        }
+
+        for (const { post, svg } of cardSvgs) {
+            const card = new Resvg(svg, {
+                fitTo: { mode: "original" },
+                font: {
+                    fontFiles,
+                    loadSystemFonts: false,
+                    defaultFontFamily: "Roboto Mono",
+                },
+            });
+            await writeAsset(blogOgCardOutputPath(post.slug), card.render().asPng());
+        }
+    } finally {
+        await rm(fontDir, { recursive: true, force: true });
+    }
+}
+
+function parseUnicodeRange(unicodeRange: string): Array<[number, number]> {
+    return unicodeRange.split(",").map((range) => {
+        const [start, end = start] = range.trim().replace(/^U\+/i, "").split("-");
+        return [Number.parseInt(start, 16), Number.parseInt(end, 16)];
+    });
+}
+
+function collectSiteFontText(
+    generatedPages: Map<string, string>,
+    textSelector: string,
+): Set<string> {
+    const characters = new Set<string>();
+
+    for (const pageHtml of generatedPages.values()) {
+        const { document } = new JSDOM(pageHtml).window;
+        for (const element of document.querySelectorAll("script, style")) {
+            element.remove();
+        }
+
+        for (const element of document.querySelectorAll(textSelector)) {
+            // Some labels are uppercased in CSS, so keep both cases of every letter.
+            for (const character of element.textContent ?? "") {
+                characters.add(character);
+                characters.add(character.toUpperCase());
+                characters.add(character.toLowerCase());
+            }
+        }
+    }
+
+    return characters;
+}
+
+function fontsourceUnicodePath(fontsourceId: string): string {
+    return path.join(ROOT_DIR, "node_modules", "@fontsource", fontsourceId, "unicode.json");
+}
+
+function fontsourceFilePath(fontsourceId: string, subset: SiteFontSubset): string {
+    return path.join(
+        ROOT_DIR,
+        "node_modules",
+        "@fontsource",
+        fontsourceId,
+        "files",
+        `${fontsourceId}-${subset}-400-normal.woff2`,
+    );
+}
+
+async function buildSiteFonts(generatedPages: Map<string, string>): Promise<SiteFontFile[]> {
+    const fontFiles: SiteFontFile[] = [];
+
+    for (const font of SITE_FONTS) {
+        const usedCharacters = collectSiteFontText(generatedPages, font.textSelector);
+        if (usedCharacters.size === 0) {
+            continue;
+        }
+
+        const unicodeRanges = JSON.parse(
+            await readFile(fontsourceUnicodePath(font.fontsourceId), "utf8"),
+        ) as Record<SiteFontSubset, string>;
+
+        for (const subset of SITE_FONT_SUBSETS) {
+            const codePointRanges = parseUnicodeRange(unicodeRanges[subset]);
+            const subsetText = [...usedCharacters]
+                .filter((character) => {
+                    const codePoint = character.codePointAt(0) ?? 0;
+                    return codePointRanges.some(
+                        ([start, end]) => codePoint >= start && codePoint <= end,
+                    );
+                })
+                .join("");
+            if (subsetText === "") {
+                continue;
+            }
+
+            const sourceFont = await readFile(fontsourceFilePath(font.fontsourceId, subset));
+            const subsetFontData = await subsetFont(sourceFont, subsetText, {
+                targetFormat: "woff2",
+            });
+            const outputPath = `${SITE_FONT_DIR}/${font.fontsourceId}-${subset}-400-normal.${contentHash(subsetFontData)}.woff2`;
+            await writeAsset(outputPath, subsetFontData);
+
+            fontFiles.push({
+                outputPath,
+                preload: font.preload && subset === "latin",
+                fontFaceCss: `@font-face {
+    font-family: "${font.family}";
+    font-style: normal;
+    font-weight: 400;
+    font-display: swap;
+    src: url("${relativeHref(siteStylesheetPath("site"), outputPath)}") format("woff2");
+    unicode-range: ${unicodeRanges[subset]};
+}
+`,
+            });
+        }
     }
+
+    return fontFiles;
+}
+
+function renderHeadAssets(tools: RenderTools, headAssets: SiteHeadAssets): string {
+    const preloadLinks = headAssets.preloadFontPaths.map(
+        (fontPath) =>
+            `<link rel="preload" href="${tools.assetTo(fontPath)}" as="font" type="font/woff2" crossorigin />`,
+    );
+
+    return [
+        ...preloadLinks,
+        `<link rel="stylesheet" href="${tools.assetTo(headAssets.stylesheetPath)}" />`,
+    ].join("\n    ");
+}
+
+async function compileSiteStylesheet(
+    generatedPages: Map<string, string>,
+    fontFiles: SiteFontFile[],
+): Promise<string> {
+    const fontFaceCss = fontFiles.map((fontFile) => fontFile.fontFaceCss).join("\n");
+    const result = await postcss([
+        tailwindcss({
+            ...tailwindConfig,
+            content: [...generatedPages.values()].map((raw) => ({ raw, extension: "html" })),
+        }),
+    ]).process(`${fontFaceCss}${TAILWIND_INPUT_CSS}`, { from: undefined });
+
+    const { code } = transformCss({
+        filename: "site.css",
+        code: Buffer.from(result.css),
+        minify: true,
+    });
+
+    return code.toString();
 }
 
 async function writePage(outputPath: string, htmlContent: string): Promise<void> {
@@ -1876,6 +5305,12 @@ async function writePage(outputPath: string, htmlContent: string): Promise<void>
     await writeFile(absolutePath, htmlContent, "utf8");
 }
 
+async function writeAsset(outputPath: string, contents: Uint8Array): Promise<void> {
+    const absolutePath = path.join(ROOT_DIR, outputPath);
+    await mkdir(path.dirname(absolutePath), { recursive: true });
+    await writeFile(absolutePath, contents);
+}
+
 function isSkippableReference(reference: string): boolean {
     return (
         reference.startsWith("http://") ||
@@ -1894,73 +5329,174 @@ async function validateGeneratedReferences(
 
     for (const [outputPath, fileContents] of generatedPages) {
         for (const match of fileContents.matchAll(attributePattern)) {
-            const reference = match[2];
-            if (isSkippableReference(reference)) {
-                continue;
-            }
+            // srcset holds comma-separated "url descriptor" candidates.
+            const references =
+                match[1] === "srcset"
+                    ? match[2].split(",").map((candidate) => candidate.trim().split(/\s+/, 1)[0])
+                    : [match[2]];
+
+            for (const reference of references) {
+                if (isSkippableReference(reference)) {
+                    continue;
+                }
 
-            const [referencePath] = reference.split(/[?#]/, 1);
-            const resolvedPath = referencePath.startsWith("/")
-                ? path.posix.normalize(referencePath.slice(1))
-                : path.posix.normalize(
-                      path.posix.join(path.posix.dirname(outputPath), referencePath),
-                  );
+                const [referencePath] = reference.split(/[?#]/, 1);
+                const resolvedPath = referencePath.startsWith("/")
+                    ? path.posix.normalize(referencePath.slice(1))
+                    : path.posix.normalize(
+                          path.posix.join(path.posix.dirname(outputPath), referencePath),
+                      );
 
-            if (resolvedPath.startsWith("../") || resolvedPath.startsWith("/")) {
-                throw new Error(
-                    `Reference escapes project root in "${outputPath}": ${reference}`,
-                );
-            }
+                if (resolvedPath.startsWith("../") || resolvedPath.startsWith("/")) {
+                    throw new Error(
+                        `Reference escapes project root in "${outputPath}": ${reference}`,
+                    );
+                }
 
-            const absolutePath = path.join(ROOT_DIR, resolvedPath);
-            try {
-                const fileStat = await stat(absolutePath);
-                if (!fileStat.isFile()) {
-                    throw new Error();
+                const absolutePath = path.join(ROOT_DIR, resolvedPath);
+                try {
+                    const fileStat = await stat(absolutePath);
+                    if (!fileStat.isFile()) {
+                        throw new Error();
+                    }
+                } catch {
+                    throw new Error(
+                        `Broken ${match[1]} in "${outputPath}": ${reference}`,
+                    );
                 }
-            } catch {
-                throw new Error(
-                    `Broken ${match[1]} in "${outputPath}": ${reference}`,
-                );
             }
         }
     }
 }
 
-async function buildSite(): Promise<void> {
+async function buildSite(): Promise<BlogPost[]> {
+    const allBlogPosts = mergeMarkdownBlogPosts(
+        blogPosts,
+        await loadMarkdownBlogPosts(path.join(ROOT_DIR, BLOG_POSTS_DIR)),
+    );
     const orderedBlogPosts = INCLUDE_UNPUBLISHED_POSTS
-        ? blogPosts
-        : blogPosts.filter((post) => post.published);
-    await validateBlogPosts(orderedBlogPosts);
-
-    const highlightBlogCode = await createBlogCodeHighlighter();
+        ? allBlogPosts
+        : allBlogPosts.filter((post) => post.published);
+    const codeSnippets = await loadBlogCodeSnippets(orderedBlogPosts);
+    await validateBlogPosts(orderedBlogPosts, allBlogPosts, codeSnippets);
+
+    const renderContext: BlogRenderContext = {
+        highlightCode: await createBlogCodeHighlighter(
+            collectBlogCodeLanguages(orderedBlogPosts, codeSnippets),
+        ),
+        responsiveImages: await buildResponsiveImages(orderedBlogPosts),
+        codeSnippets,
+        linkablePosts: new Map(orderedBlogPosts.map((post) => [post.slug, post])),
+    };
 
     await rm(path.join(ROOT_DIR, "oss"), { recursive: true, force: true });
     await rm(path.join(ROOT_DIR, "blog"), { recursive: true, force: true });
+    await rm(path.join(ROOT_DIR, SITE_STYLESHEET_DIR), { recursive: true, force: true });
+    await rm(path.join(ROOT_DIR, SITE_FONT_DIR), { recursive: true, force: true });
+
+    // Posts with a hero or inline image share that instead, so they don't need a card.
+    await buildBlogOgCards(orderedBlogPosts.filter((post) => resolveBlogShareImage(post) === null));
 
     const generatedPages = new Map<string, string>();
+    // Sitemap <lastmod> per page: the newest updatedAt/publishedAt among the posts it shows.
+    const pageLastModified = new Map<string, string>();
+    const setPageLastModified = (outputPath: string, postEntries: BlogPost[]) => {
+        const lastModified = latestBlogPostDate(postEntries);
+        if (lastModified) {
+            pageLastModified.set(outputPath, lastModified);
+        }
+    };
 
     const homeTools = createRenderTools(HOME_PAGE);
-    const homeHtml = renderHomePage(homeTools, orderedBlogPosts);
-    generatedPages.set(HOME_PAGE, homeHtml);
-    await writePage(HOME_PAGE, homeHtml);
+    generatedPages.set(HOME_PAGE, renderHomePage(homeTools, orderedBlogPosts, renderContext.linkablePosts));
+    setPageLastModified(HOME_PAGE, orderedBlogPosts);
 
     for (const post of orderedBlogPosts) {
         const outputPath = blogPostOutputPath(post.slug);
         const pageTools = createRenderTools(outputPath);
-        const pageHtml = renderBlogPostPage(pageTools, post, highlightBlogCode);
-        generatedPages.set(outputPath, pageHtml);
-        await writePage(outputPath, pageHtml);
+        generatedPages.set(outputPath, renderBlogPostPage(pageTools, post, orderedBlogPosts, renderContext));
+        setPageLastModified(outputPath, [post]);
+    }
+
+    const archivePosts = sortBlogPostsByPublishedAt(orderedBlogPosts);
+    const blogIndexPageCount = Math.max(1, Math.ceil(archivePosts.length / BLOG_INDEX_PAGE_SIZE));
+    for (let pageNumber = 1; pageNumber <= blogIndexPageCount; pageNumber += 1) {
+        const outputPath = blogIndexOutputPath(pageNumber);
+        const pagePosts = archivePosts.slice(
+            (pageNumber - 1) * BLOG_INDEX_PAGE_SIZE,
+            pageNumber * BLOG_INDEX_PAGE_SIZE,
+        );
+        generatedPages.set(
+            outputPath,
+            renderBlogIndexPage(
+                createRenderTools(outputPath),
+                pagePosts,
+                pageNumber,
+                blogIndexPageCount,
+                archivePosts.length,
+                renderContext.linkablePosts,
+            ),
+        );
+        setPageLastModified(outputPath, pagePosts);
+    }
+
+    const tagIndexTools = createRenderTools(BLOG_TAG_INDEX_PAGE);
+    const tagArchives = collectBlogTagArchives(orderedBlogPosts);
+    generatedPages.set(BLOG_TAG_INDEX_PAGE, renderBlogTagIndexPage(tagIndexTools, tagArchives));
+    setPageLastModified(BLOG_TAG_INDEX_PAGE, orderedBlogPosts.filter((post) => post.tags?.length));
+
+    for (const archive of tagArchives) {
+        const outputPath = blogTagOutputPath(archive.label);
+        const pageTools = createRenderTools(outputPath);
+        generatedPages.set(outputPath, renderBlogTagPage(pageTools, archive, renderContext.linkablePosts));
+        setPageLastModified(outputPath, archive.posts);
+    }
+
+    for (const series of collectBlogSeries(orderedBlogPosts)) {
+        const outputPath = blogSeriesOutputPath(series.name);
+        const pageTools = createRenderTools(outputPath);
+        generatedPages.set(outputPath, renderBlogSeriesPage(pageTools, series, renderContext.linkablePosts));
+        setPageLastModified(outputPath, series.posts);
+    }
+
+    // Fonts and the stylesheet are derived from the rendered pages, so pages carry a
+    // marker in <head> that is swapped for the hashed asset links once those exist.
+    const siteFontFiles = await buildSiteFonts(generatedPages);
+    const siteStylesheet = await compileSiteStylesheet(generatedPages, siteFontFiles);
+    const headAssets: SiteHeadAssets = {
+        stylesheetPath: siteStylesheetPath(contentHash(siteStylesheet)),
+        preloadFontPaths: siteFontFiles
+            .filter((fontFile) => fontFile.preload)
+            .map((fontFile) => fontFile.outputPath),
+    };
+    await writePage(headAssets.stylesheetPath, siteStylesheet);
+
+    for (const [outputPath, pageHtml] of generatedPages) {
+        const linkedPageHtml = pageHtml.replace(
+            SITE_HEAD_ASSETS_MARKER,
+            renderHeadAssets(createRenderTools(outputPath), headAssets),
+        );
+        generatedPages.set(outputPath, linkedPageHtml);
+        await writePage(outputPath, linkedPageHtml);
     }
 
+    const feedEntries = await createFeedEntries(orderedBlogPosts, renderContext);
+    await writePage(RSS_FEED_PATH, renderRssFeed(feedEntries));
+    await writePage(ATOM_FEED_PATH, renderAtomFeed(feedEntries));
+    await writePage(JSON_FEED_PATH, renderJsonFeed(feedEntries));
+    await writePage(SITEMAP_PATH, renderSitemap([...generatedPages.keys()], pageLastModified));
+    await writePage(ROBOTS_PATH, renderRobotsTxt());
+
     await validateGeneratedReferences(generatedPages);
+
+    return allBlogPosts;
 }
 
-await buildSite();
+const allBlogPosts = await buildSite();
 const builtBlogPostCount = INCLUDE_UNPUBLISHED_POSTS
-    ? blogPosts.length
-    : blogPosts.filter((post) => post.published).length;
-const skippedUnpublishedCount = blogPosts.length - builtBlogPostCount;
+    ? allBlogPosts.length
+    : allBlogPosts.filter((post) => post.published).length;
+const skippedUnpublishedCount = allBlogPosts.length - builtBlogPostCount;
 const skippedSummary =
     skippedUnpublishedCount > 0
         ? ` Skipped ${skippedUnpublishedCount} unpublished post(s).`
@@ -6,7 +6,7 @@ import path from "node:path";
 
 const ROOT_DIR = process.cwd();
 const DEFAULT_PORT = 5173;
-const WATCH_TARGETS = ["content", "img", "scripts/build.ts"] as const;
+const WATCH_TARGETS = ["content", "img", "scripts/build.ts", "tailwind.config.ts"] as const;
 const LIVE_RELOAD_SNIPPET = `<script>
 (() => {
   if (window.__elizibinDevReload) return;
@@ -126,6 +126,8 @@ function contentTypeForPath(filePath: string): string {
             return "application/javascript; charset=utf-8";
         case ".json":
             return "application/json; charset=utf-8";
+        case ".xml":
+            return "application/xml; charset=utf-8";
         case ".svg":
             return "image/svg+xml";
         case ".png":
@@ -137,8 +139,12 @@ function contentTypeForPath(filePath: string): string {
             return "image/gif";
         case ".webp":
             return "image/webp";
+        case ".avif":
+            return "image/avif";
         case ".ico":
             return "image/x-icon";
+        case ".woff2":
+            return "font/woff2";
         case ".txt":
             return "text/plain; charset=utf-8";
         default:
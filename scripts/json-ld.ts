@@ -0,0 +1,212 @@
+export type JsonLdValue = string | number | JsonLdNode | JsonLdValue[];
+
+export type JsonLdNode = {
+    "@context"?: string;
+    "@type": string;
+    [property: string]: JsonLdValue | undefined;
+};
+
+type JsonLdDataType = "Text" | "URL" | "Date" | "Integer";
+
+type JsonLdPropertyRule = {
+    // schema.org "expected types": data types or other types in JSON_LD_SCHEMA.
+    accepts: string[];
+    multiple?: boolean;
+};
+
+type JsonLdTypeRule = {
+    required: string[];
+    properties: Record<string, JsonLdPropertyRule>;
+};
+
+const JSON_LD_CONTEXT = "https://schema.org";
+const JSON_LD_DATA_TYPES: JsonLdDataType[] = ["Text", "URL", "Date", "Integer"];
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?$/;
+
+/**
+ * The slice of schema.org the site emits. Properties outside this list fail the build,
+ * which catches typos that search engines would otherwise ignore silently.
+ */
+const JSON_LD_SCHEMA: Record<string, JsonLdTypeRule> = {
+    BlogPosting: {
+        required: ["headline", "datePublished", "author", "url"],
+        properties: {
+            headline: { accepts: ["Text"] },
+            description: { accepts: ["Text"] },
+            url: { accepts: ["URL"] },
+            mainEntityOfPage: { accepts: ["URL", "WebPage"] },
+            datePublished: { accepts: ["Date"] },
+            dateModified: { accepts: ["Date"] },
+            image: { accepts: ["URL", "ImageObject"] },
+            keywords: { accepts: ["Text"], multiple: true },
+            wordCount: { accepts: ["Integer"] },
+            author: { accepts: ["Person"] },
+            publisher: { accepts: ["Person"] },
+            isPartOf: { accepts: ["WebSite", "CreativeWorkSeries"] },
+            about: { accepts: ["SoftwareSourceCode"] },
+        },
+    },
+    CreativeWorkSeries: {
+        required: ["name", "url"],
+        properties: {
+            name: { accepts: ["Text"] },
+            url: { accepts: ["URL"] },
+        },
+    },
+    ImageObject: {
+        required: ["url"],
+        properties: {
+            url: { accepts: ["URL"] },
+            caption: { accepts: ["Text"] },
+        },
+    },
+    Organization: {
+        required: ["name"],
+        properties: {
+            name: { accepts: ["Text"] },
+            url: { accepts: ["URL"] },
+        },
+    },
+    Person: {
+        required: ["name", "url"],
+        properties: {
+            name: { accepts: ["Text"] },
+            url: { accepts: ["URL"] },
+            description: { accepts: ["Text"] },
+            jobTitle: { accepts: ["Text"] },
+            worksFor: { accepts: ["Organization"] },
+            sameAs: { accepts: ["URL"], multiple: true },
+        },
+    },
+    SoftwareSourceCode: {
+        required: ["codeRepository"],
+        properties: {
+            codeRepository: { accepts: ["URL"] },
+            name: { accepts: ["Text"] },
+        },
+    },
+    WebPage: {
+        required: ["url"],
+        properties: {
+            url: { accepts: ["URL"] },
+        },
+    },
+    WebSite: {
+        required: ["name", "url"],
+        properties: {
+            name: { accepts: ["Text"] },
+            url: { accepts: ["URL"] },
+            description: { accepts: ["Text"] },
+            inLanguage: { accepts: ["Text"] },
+            author: { accepts: ["Person"] },
+            publisher: { accepts: ["Person"] },
+        },
+    },
+};
+
+function isJsonLdNode(value: JsonLdValue): value is JsonLdNode {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function matchesDataType(value: JsonLdValue, dataType: JsonLdDataType): boolean {
+    switch (dataType) {
+        case "Text":
+            return typeof value === "string" && value.trim() !== "";
+        case "URL":
+            return typeof value === "string" && /^https?:\/\/\S+$/.test(value);
+        case "Date":
+            return (
+                typeof value === "string" &&
+                ISO_DATE_PATTERN.test(value) &&
+                !Number.isNaN(Date.parse(value))
+            );
+        case "Integer":
+            return Number.isInteger(value);
+    }
+}
+
+function validateJsonLdValue(
+    value: JsonLdValue,
+    rule: JsonLdPropertyRule,
+    fieldPath: string,
+): string | null {
+    if (isJsonLdNode(value)) {
+        if (!rule.accepts.includes(value["@type"])) {
+            return `"${fieldPath}" has @type "${value["@type"]}". Expected ${rule.accepts.join(" or ")}.`;
+        }
+
+        return validateJsonLdNodeAt(value, fieldPath);
+    }
+
+    const dataTypes = rule.accepts.filter((accepted): accepted is JsonLdDataType =>
+        JSON_LD_DATA_TYPES.includes(accepted as JsonLdDataType),
+    );
+    if (!dataTypes.some((dataType) => matchesDataType(value, dataType))) {
+        return `"${fieldPath}" has value ${JSON.stringify(value)}. Expected ${rule.accepts.join(" or ")}.`;
+    }
+
+    return null;
+}
+
+function validateJsonLdNodeAt(node: JsonLdNode, fieldPath: string): string | null {
+    const typeRule = JSON_LD_SCHEMA[node["@type"]];
+    if (!typeRule) {
+        return `"${fieldPath}" has unsupported @type "${node["@type"]}". Supported: ${Object.keys(JSON_LD_SCHEMA).join(", ")}.`;
+    }
+
+    for (const property of typeRule.required) {
+        if (node[property] === undefined) {
+            return `"${fieldPath}" (${node["@type"]}) is missing required "${property}".`;
+        }
+    }
+
+    for (const [property, value] of Object.entries(node)) {
+        if (property === "@type" || property === "@context" || value === undefined) {
+            continue;
+        }
+
+        const propertyPath = `${fieldPath}.${property}`;
+        const rule = typeRule.properties[property];
+        if (!rule) {
+            return `"${propertyPath}" is not a supported ${node["@type"]} property.`;
+        }
+
+        if (Array.isArray(value) && !rule.multiple) {
+            return `"${propertyPath}" must be a single value, not a list.`;
+        }
+
+        const values = Array.isArray(value) ? value : [value];
+        if (values.length === 0) {
+            return `"${propertyPath}" is an empty list. Omit it instead.`;
+        }
+
+        for (const [index, entry] of values.entries()) {
+            const entryPath = Array.isArray(value) ? `${propertyPath}[${index}]` : propertyPath;
+            const error = validateJsonLdValue(entry, rule, entryPath);
+            if (error) {
+                return error;
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Checks a top-level JSON-LD node against the bundled schema subset and returns the
+ * first problem as a message, or null when the node is valid.
+ */
+export function validateJsonLd(node: JsonLdNode): string | null {
+    if (node["@context"] !== JSON_LD_CONTEXT) {
+        return `"@context" must be "${JSON_LD_CONTEXT}".`;
+    }
+
+    return validateJsonLdNodeAt(node, node["@type"]);
+}
+
+/**
+ * Serializes JSON-LD for an inline <script>, escaping "<" so post text can't close the tag.
+ */
+export function serializeJsonLd(node: JsonLdNode): string {
+    return JSON.stringify(node).replaceAll("<", "\\u003c");
+}
@@ -0,0 +1,26 @@
+import type { Config } from "tailwindcss";
+
+export default {
+    // The build scans generated pages directly; these globs cover the committed output.
+    content: ["./index.html", "./blog/**/*.html"],
+    darkMode: "media",
+    theme: {
+        extend: {
+            fontFamily: {
+                abril: ['"Abril Fatface"', "cursive"],
+                "great-vibes": ['"Great Vibes"', "cursive"],
+                "roboto-mono": ['"Roboto Mono"', "monospace"],
+            },
+            colors: {
+                primary: {
+                    light: "rgba(0, 111, 255, 0.9)",
+                    dark: "rgba(0, 255, 136, 0.9)",
+                },
+                secondary: {
+                    light: "rgba(255, 0, 255, 0.9)",
+                    dark: "rgba(255, 230, 0, 0.9)",
+                },
+            },
+        },
+    },
+} satisfies Config;